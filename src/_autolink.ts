@@ -0,0 +1,135 @@
+import type { Repository } from '@napi-rs/simple-git'
+import type { ValidOptions } from './types'
+import { findCommit } from './_git'
+import { replaceInText } from './_markdown'
+import { fillTemplate } from './_providers'
+import { getCommitLink, getIssueUrl, getUserUrl } from './_utils'
+
+/**
+ * Regular expression to match issue references like "#123", "org/repo#123" or "group/subgroup/repo#123"
+ * The reference must not be preceded by a word character, "/", "&" (HTML entities) or "#"
+ */
+const ISSUE_REFERENCE_REGEX = /(^|[^\w/&#])((?:[\w.-]+\/)+[\w.-]+)?#(\d+)\b/g
+
+/**
+ * Regular expression to match mentions like "@octocat"
+ * Email addresses and npm scopes like "@scope/pkg" are not matched
+ */
+const MENTION_REGEX = /(^|[^\w@/.-])@([a-z\d](?:[a-z\d-]{0,37}[a-z\d])?)(?![\w/-])/gi
+
+/**
+ * Regular expression to match (short) commit SHAs like "a1b2c3d"
+ * At least one letter is required so that numbers aren't mistaken for SHAs
+ */
+const COMMIT_SHA_REGEX = /(^|[^\w/@#.-])(?=\d*[a-f])([\da-f]{7,40})(?![\w-])/gi
+
+/**
+ * Escapes all special characters of a string so that it can be used in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Turns issue references into links to the issues of the forge.
+ * References to other repositories ("org/repo#123") link to the issues of that repository.
+ *
+ * @example
+ * ```ts
+ * linkIssueReferences('fixes #789 and org/other#12', { repo: 'owner/repo' });
+ * // Returns "fixes [#789](https://github.com/owner/repo/issues/789) and [org/other#12](https://github.com/org/other/issues/12)"
+ * ```
+ */
+export function linkIssueReferences(text: string, options: ValidOptions): string {
+  return text.replace(ISSUE_REFERENCE_REGEX, (_, prefix: string, repo: string | undefined, issueNumber: string) => {
+    const url = getIssueUrl(repo ? { ...options, repo: repo as ValidOptions['repo'] } : options, Number.parseInt(issueNumber, 10))
+
+    return `${prefix}[${repo ?? ''}#${issueNumber}](${url})`
+  })
+}
+
+/**
+ * Turns issue keys of external trackers (e.g. "PLAT-1234" for Jira) into links.
+ * Only prefixes that are configured in the "issueTrackers" option are linked.
+ *
+ * @example
+ * ```ts
+ * linkIssueKeys('Closes PLAT-1234', { repo: 'owner/repo', issueTrackers: { PLAT: 'https://jira.example.com/browse/{key}' } });
+ * // Returns "Closes [PLAT-1234](https://jira.example.com/browse/PLAT-1234)"
+ * ```
+ */
+export function linkIssueKeys(text: string, options: ValidOptions): string {
+  const trackers = Object.entries(options.issueTrackers ?? {})
+
+  if (trackers.length === 0)
+    return text
+
+  const issueKeyRegex = new RegExp(`(^|[^\\w-])((${trackers.map(([prefix]) => escapeRegExp(prefix)).join('|')})-(\\d+))\\b`, 'g')
+
+  return text.replace(issueKeyRegex, (_, before: string, key: string, prefix: string, issueNumber: string) => {
+    const template = trackers.find(([trackerPrefix]) => trackerPrefix === prefix)![1]
+
+    return `${before}[${key}](${fillTemplate(template, { key, prefix, number: issueNumber })})`
+  })
+}
+
+/**
+ * Turns mentions into links to the profiles of the forge.
+ *
+ * @example
+ * ```ts
+ * linkMentions('thanks to @alice', { repo: 'owner/repo' });
+ * // Returns "thanks to [@alice](https://github.com/alice)"
+ * ```
+ */
+export function linkMentions(text: string, options: ValidOptions): string {
+  return text.replace(MENTION_REGEX, (_, prefix: string, username: string) => `${prefix}[@${username}](${getUserUrl(options, username)})`)
+}
+
+/**
+ * Turns commit SHAs into links to the commits.
+ * Only SHAs that exist in the local repository are linked, all other hex strings are left untouched.
+ *
+ * @example
+ * ```ts
+ * linkCommitShas('reverts a1b2c3d', repository, { repo: 'owner/repo' });
+ * // Returns "reverts [`a1b2c3d`](https://github.com/owner/repo/commit/a1b2c3d4e5f6...)"
+ * ```
+ */
+export function linkCommitShas(text: string, repository: Repository, options: ValidOptions): string {
+  return text.replace(COMMIT_SHA_REGEX, (match, prefix: string, sha: string) => {
+    let commitSha: string | undefined
+
+    try {
+      commitSha = findCommit(repository, sha)?.id()
+    }
+    catch {
+      // Ambiguous or invalid SHAs can't be linked
+    }
+
+    return commitSha ? `${prefix}${getCommitLink(options, commitSha)}` : match
+  })
+}
+
+/**
+ * Turns issue keys in the changeset summary into Markdown links.
+ * Issue references, mentions and commit SHAs are linked, too, if the "linkIssues", "linkMentions" or "linkCommits" option is enabled.
+ * References inside code blocks, code spans and existing links are left untouched.
+ */
+export function autolinkSummary(summary: string, repository: Repository, options: ValidOptions): string {
+  let linkedSummary = summary
+
+  // Every pass runs separately so that it doesn't touch the links of the previous one
+  if (options.linkIssues)
+    linkedSummary = replaceInText(linkedSummary, text => linkIssueReferences(text, options))
+
+  linkedSummary = replaceInText(linkedSummary, text => linkIssueKeys(text, options))
+
+  if (options.linkMentions)
+    linkedSummary = replaceInText(linkedSummary, text => linkMentions(text, options))
+
+  if (options.linkCommits)
+    linkedSummary = replaceInText(linkedSummary, text => linkCommitShas(text, repository, options))
+
+  return linkedSummary
+}
@@ -0,0 +1,81 @@
+import type { Changeset, Release, VersionType } from '@changesets/types'
+import fs from 'node:fs'
+import path from 'node:path'
+
+export type ChangesetWithId = Changeset & { id: string }
+
+export interface ChangesetConfig {
+  /**
+   * The options of the changelog generator, i.e. the second item of the "changelog" array
+   */
+  changelogOptions: Record<string, any>
+}
+
+/**
+ * Regular expression to match a release in the front matter, e.g. `"pkg": minor` or `'@scope/pkg': patch`
+ */
+const RELEASE_REGEX = /^(["']?)([^"':\s]+)\1\s*:\s*(major|minor|patch|none)$/
+
+/**
+ * Parses the content of a changeset file
+ *
+ * @example
+ * ```ts
+ * parseChangeset('---\n"pkg": minor\n---\n\nAdd feature', 'brave-lions');
+ * // Returns { id: 'brave-lions', summary: 'Add feature', releases: [{ name: 'pkg', type: 'minor' }] }
+ * ```
+ */
+export function parseChangeset(content: string, id: string): ChangesetWithId {
+  const lines = content.trimStart().split(/\r?\n/)
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+
+  if (lines[0]?.trim() !== '---' || end === -1) {
+    throw new Error(`Couldn't parse the changeset "${id}". It must start with a front matter block between "---" lines.`)
+  }
+
+  const releases: Release[] = []
+
+  for (const line of lines.slice(1, end)) {
+    if (line.trim() === '')
+      continue
+
+    const release = line.trim().match(RELEASE_REGEX)
+
+    if (!release) {
+      throw new Error(`Couldn't parse the changeset "${id}". Invalid release: ${line.trim()}`)
+    }
+
+    releases.push({ name: release[2], type: release[3] as VersionType })
+  }
+
+  return { id, summary: lines.slice(end + 1).join('\n').trim(), releases }
+}
+
+/**
+ * Reads the raw content of all pending changeset files from the ".changeset" directory, sorted by their id
+ */
+export function readChangesetFiles(cwd: string): Array<{ id: string, content: string }> {
+  const changesetDir = path.join(cwd, '.changeset')
+
+  if (!fs.existsSync(changesetDir)) {
+    throw new Error(`There is no ".changeset" directory in ${cwd}.`)
+  }
+
+  return fs.readdirSync(changesetDir)
+    .filter(file => file.endsWith('.md') && file !== 'README.md')
+    .sort()
+    .map(file => ({ id: file.slice(0, -'.md'.length), content: fs.readFileSync(path.join(changesetDir, file), 'utf8') }))
+}
+
+/**
+ * Reads the parts of ".changeset/config.json" that are relevant for the changelog.
+ * The options of the "changelog" entry are used even if it points to a different path of this changelog generator (e.g. "../").
+ */
+export function readChangesetConfig(cwd: string): ChangesetConfig {
+  const configPath = path.join(cwd, '.changeset', 'config.json')
+  const config = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {}
+
+  return {
+    changelogOptions: Array.isArray(config.changelog) ? config.changelog[1] ?? {} : {},
+  }
+}
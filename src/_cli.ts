@@ -0,0 +1,63 @@
+import type { LintFormat } from './_lint'
+import { parseArgs } from 'node:util'
+import { addFullChangelogLinks } from './_compare'
+import { formatLintResult, LINT_FORMATS, lintChangesets } from './_lint'
+import { renderPreview } from './_preview'
+import { CWD } from './constants'
+
+const HELP = `Usage: changesets-changelog-github-local <command>
+
+Commands:
+  preview              Print the changelog entries of all pending changesets without running "changeset version"
+  lint                 Check that all pending changesets resolve to a commit with a PR reference
+  full-changelog       Add a "Full Changelog" compare link to the new changelog entries, run it after "changeset version"
+
+Options:
+  --format <format>    Output format of the lint command: "text" (default), "json" or "github"
+  -h, --help           Show this help`
+
+/**
+ * Runs the CLI with the given arguments and returns the exit code
+ */
+export async function run(args: string[]): Promise<number> {
+  const { positionals, values } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      help: { type: 'boolean', short: 'h' },
+      format: { type: 'string', default: 'text' },
+    },
+  })
+  const [command] = positionals
+
+  if (values.help || !command) {
+    process.stdout.write(`${HELP}\n`)
+    return values.help ? 0 : 1
+  }
+
+  switch (command) {
+    case 'preview':
+      process.stdout.write(`${await renderPreview()}\n`)
+      return 0
+    case 'lint': {
+      if (!LINT_FORMATS.includes(values.format as LintFormat)) {
+        console.error(`Invalid format "${values.format}". Please use one of: ${LINT_FORMATS.map(format => `"${format}"`).join(', ')}`)
+        return 1
+      }
+
+      const result = lintChangesets()
+      process.stdout.write(`${formatLintResult(result, values.format as LintFormat)}\n`)
+
+      return result.problemCount > 0 ? 1 : 0
+    }
+    case 'full-changelog': {
+      const files = addFullChangelogLinks(CWD)
+      process.stdout.write(files.length > 0 ? `Added a "Full Changelog" link to:\n${files.map(file => `- ${file}`).join('\n')}\n` : 'There are no new changelog entries to link.\n')
+
+      return 0
+    }
+    default:
+      console.error(`Unknown command "${command}".\n\n${HELP}`)
+      return 1
+  }
+}
@@ -0,0 +1,95 @@
+import type { Repository } from '@napi-rs/simple-git'
+import type { ValidOptions } from './types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { readChangesetConfig } from './_changesets'
+import { tagExists } from './_git'
+import { resolveOptions } from './_remote'
+import { getPackageOptions } from './_repos'
+import { getCompareUrl, getRepository, getTagName, validate } from './_utils'
+import { getWorkspacePackages } from './_workspace'
+
+const FULL_CHANGELOG_LABEL = '**Full Changelog**'
+
+/**
+ * Regular expression to match the version headings that Changesets adds to a changelog, e.g. "## 1.1.0"
+ */
+const VERSION_HEADING_REGEX = /^## (\S+)[ \t]*$/gm
+
+/**
+ * Returns the URL that compares two versions of a package in its repository (see the "packageRepos" option).
+ * Returns undefined if the tag of the old version doesn't exist in the local repository.
+ *
+ * @example
+ * ```ts
+ * getReleaseCompareUrl(repository, 'pkg', '1.0.0', '1.1.0', { repo: 'owner/repo' });
+ * // Returns "https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0" if the tag "pkg@1.0.0" exists
+ * ```
+ */
+export function getReleaseCompareUrl(repository: Repository, name: string, oldVersion: string, newVersion: string, options: ValidOptions): string | undefined {
+  const oldTag = getTagName(options, name, oldVersion)
+
+  if (!tagExists(repository, oldTag))
+    return undefined
+
+  return getCompareUrl(getPackageOptions(name, options), oldTag, getTagName(options, name, newVersion))
+}
+
+/**
+ * Adds the "Full Changelog" link to the newest entry of a changelog, e.g. "**Full Changelog**: [pkg@1.0.0...pkg@1.1.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0)"
+ * The newest entry must belong to the given version, the old version is the one of the entry below it.
+ * The changelog is returned unchanged if the entry already has the link, there is no older entry or the tag of the old version doesn't exist.
+ */
+export function addFullChangelogLink(changelog: string, name: string, version: string, repository: Repository, options: ValidOptions): string {
+  const [newest, previous] = changelog.matchAll(VERSION_HEADING_REGEX)
+
+  if (!newest || !previous || newest[1] !== version)
+    return changelog
+
+  if (changelog.slice(newest.index, previous.index).includes(FULL_CHANGELOG_LABEL))
+    return changelog
+
+  const oldVersion = previous[1]
+  const compareUrl = getReleaseCompareUrl(repository, name, oldVersion, version, options)
+
+  if (!compareUrl)
+    return changelog
+
+  const link = `${FULL_CHANGELOG_LABEL}: [${getTagName(options, name, oldVersion)}...${getTagName(options, name, version)}](${compareUrl})`
+
+  return `${changelog.slice(0, previous.index).trimEnd()}\n\n${link}\n\n${changelog.slice(previous.index)}`
+}
+
+/**
+ * Adds the "Full Changelog" link to the changelogs of all packages that were just versioned, i.e. whose newest entry is the version of their package.json.
+ * Meant to run after `changeset version`, because Changesets doesn't tell the changelog functions which package they're writing the entry for.
+ * The options of the "changelog" entry in ".changeset/config.json" are used. Returns the changed files, relative to the root of the workspace.
+ *
+ * @example
+ * ```ts
+ * addFullChangelogLinks('/repo'); // Returns ["packages/core/CHANGELOG.md"]
+ * ```
+ */
+export function addFullChangelogLinks(cwd: string): string[] {
+  const options = resolveOptions(readChangesetConfig(cwd).changelogOptions)
+  validate(options)
+
+  const repository = getRepository()
+
+  return getWorkspacePackages(cwd).flatMap(({ dir, packageJson }) => {
+    const changelogPath = path.join(cwd, dir, 'CHANGELOG.md')
+
+    if (!packageJson.version || !fs.existsSync(changelogPath))
+      return []
+
+    const changelog = fs.readFileSync(changelogPath, 'utf8')
+    const updatedChangelog = addFullChangelogLink(changelog, packageJson.name, packageJson.version, repository, options)
+
+    if (updatedChangelog === changelog)
+      return []
+
+    fs.writeFileSync(changelogPath, updatedChangelog)
+
+    return [path.posix.join(dir, 'CHANGELOG.md')]
+  })
+}
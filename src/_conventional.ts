@@ -0,0 +1,147 @@
+import type { ConventionalCommit, ConventionalCommitsOptions, ValidOptions } from './types'
+import { fillTemplate } from './_providers'
+
+/**
+ * Regular expression to match a Conventional Commit prefix, e.g. "feat(api)!: Add endpoint"
+ */
+const CONVENTIONAL_COMMIT_REGEX = /^(\w+)(?:\(([^()\r\n]+)\))?(!)?: (.*)$/
+
+/**
+ * Regular expression to match a breaking change footer, e.g. "BREAKING CHANGE: Removed the v1 API"
+ */
+const BREAKING_CHANGE_FOOTER_REGEX = /^BREAKING[ -]CHANGE:/m
+
+export const BOLD_LABELS: Record<string, string> = {
+  feat: 'Feature',
+  fix: 'Fix',
+  perf: 'Performance',
+  refactor: 'Refactor',
+  docs: 'Docs',
+  style: 'Style',
+  test: 'Tests',
+  build: 'Build',
+  ci: 'CI',
+  chore: 'Chore',
+  revert: 'Revert',
+}
+
+export const EMOJI_LABELS: Record<string, string> = {
+  feat: '✨',
+  fix: '🐛',
+  perf: '⚡️',
+  refactor: '♻️',
+  docs: '📝',
+  style: '💄',
+  test: '✅',
+  build: '📦',
+  ci: '👷',
+  chore: '🔧',
+  revert: '⏪',
+}
+
+/**
+ * Returns the labels of the commit types, the custom labels take precedence over the default ones
+ */
+function getLabels(options: ConventionalCommitsOptions): Record<string, string> {
+  return { ...(options.style === 'emoji' ? EMOJI_LABELS : BOLD_LABELS), ...options.labels }
+}
+
+/**
+ * Parses the Conventional Commit prefix of the first line of a text. Only types with a label are recognized, so that e.g. "Note: ..." isn't mistaken for a prefix.
+ * A "BREAKING CHANGE:" footer in the rest of the text marks the change as breaking, too.
+ *
+ * @example
+ * ```ts
+ * parseConventionalCommit('feat(api)!: Add endpoint', BOLD_LABELS);
+ * // Returns { type: 'feat', scope: 'api', breaking: true, description: 'Add endpoint' }
+ * ```
+ */
+export function parseConventionalCommit(text: string, labels: Record<string, string> = BOLD_LABELS): ConventionalCommit | undefined {
+  const [firstLine, ...restOfLines] = text.split('\n')
+  const match = firstLine.trim().match(CONVENTIONAL_COMMIT_REGEX)
+
+  if (!match || !labels[match[1].toLowerCase()])
+    return undefined
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim(),
+    breaking: Boolean(match[3]) || BREAKING_CHANGE_FOOTER_REGEX.test(restOfLines.join('\n')),
+    description: match[4].trim(),
+  }
+}
+
+/**
+ * Removes the Conventional Commit prefix from the first line of a text.
+ * The labels of the "conventionalCommits" option are used to recognize the types, even if the option is disabled.
+ *
+ * @example
+ * ```ts
+ * removeConventionalPrefix('fix(api): Handle errors', { repo: 'owner/repo' }); // Returns "Handle errors"
+ * ```
+ */
+export function removeConventionalPrefix(text: string, options: ValidOptions): string {
+  const labels = getLabels(typeof options.conventionalCommits === 'object' ? options.conventionalCommits : {})
+  const conventionalCommit = parseConventionalCommit(text, labels)
+
+  return conventionalCommit ? [conventionalCommit.description, ...text.split('\n').slice(1)].join('\n') : text
+}
+
+/**
+ * Returns the Conventional Commit scope of the summary or, if the summary doesn't have a prefix, of the commit subject.
+ * The labels of the "conventionalCommits" option are used to recognize the types, even if the option is disabled.
+ *
+ * @example
+ * ```ts
+ * getConventionalScope('Update workflow', 'ci(release): Update workflow (#12)', { repo: 'owner/repo' }); // Returns "release"
+ * ```
+ */
+export function getConventionalScope(summary: string, commitMessage: string | undefined, options: ValidOptions): string | undefined {
+  const labels = getLabels(typeof options.conventionalCommits === 'object' ? options.conventionalCommits : {})
+  const conventionalCommit = parseConventionalCommit(summary, labels) ?? (commitMessage ? parseConventionalCommit(commitMessage, labels) : undefined)
+
+  return conventionalCommit?.scope
+}
+
+/**
+ * Replaces the Conventional Commit prefix of the summary with a category label and a scope tag.
+ * If the summary doesn't have a prefix, the one of the commit subject is used for the label and the summary is left as is.
+ * Breaking changes (marked in the prefix or with a footer in the summary or commit message) are highlighted. Returns the summary unchanged if the "conventionalCommits" option is disabled or no prefix is found.
+ *
+ * @example
+ * ```ts
+ * formatConventionalSummary('feat(api): Add endpoint', undefined, { repo: 'owner/repo', conventionalCommits: true });
+ * // Returns "**Feature:** **api:** Add endpoint"
+ *
+ * formatConventionalSummary('Add endpoint', 'fix!: Handle errors (#12)', { repo: 'owner/repo', conventionalCommits: { style: 'emoji' } });
+ * // Returns "⚠️ **Breaking:** 🐛 Add endpoint"
+ * ```
+ */
+export function formatConventionalSummary(summary: string, commitMessage: string | undefined, options: ValidOptions): string {
+  if (!options.conventionalCommits)
+    return summary
+
+  const conventionalOptions = options.conventionalCommits === true ? {} : options.conventionalCommits
+  const labels = getLabels(conventionalOptions)
+  const fromSummary = parseConventionalCommit(summary, labels)
+  const conventionalCommit = fromSummary ?? (commitMessage ? parseConventionalCommit(commitMessage, labels) : undefined)
+
+  if (!conventionalCommit)
+    return summary
+
+  const label = labels[conventionalCommit.type]
+  const scopeTemplate = conventionalOptions.scopeTemplate ?? '**{scope}:**'
+
+  const isBreaking = conventionalCommit.breaking || BREAKING_CHANGE_FOOTER_REGEX.test(summary)
+
+  const prefix = [
+    isBreaking ? conventionalOptions.breakingLabel ?? '⚠️ **Breaking:**' : '',
+    conventionalOptions.style === 'emoji' ? label : `**${label}:**`,
+    conventionalCommit.scope ? fillTemplate(scopeTemplate, { scope: conventionalCommit.scope }) : '',
+  ].filter(Boolean).join(' ')
+
+  // The prefix of the summary is replaced, a prefix of the commit subject is only used for the label
+  const text = fromSummary ? [fromSummary.description, ...summary.split('\n').slice(1)].join('\n') : summary
+
+  return `${prefix} ${text}`
+}
@@ -0,0 +1,143 @@
+import type { ModCompWithPackage, NewChangesetWithCommit } from '@changesets/types'
+import type { Repository } from '@napi-rs/simple-git'
+import type { ValidOptions } from './types'
+import { getReleaseCompareUrl } from './_compare'
+import { findPrNumber, getCommitUrlOverride, resolveChangesetCommit } from './_git'
+import { findPullRequestMetadata, getMetadataIndex } from './_metadata'
+import { reportUnresolvedChangeset } from './_report'
+import { getCommitOptions } from './_repos'
+import { renderDependencyLine } from './_template'
+import { getCommitLink, getPrLink, parseSummary } from './_utils'
+import { CWD } from './constants'
+
+/**
+ * Returns the URL that compares the old and the new version of a dependency.
+ * Returns undefined if the "compareLinks" option is disabled or the tag of the old version doesn't exist in the local repository.
+ */
+export function getDependencyCompareUrl(dependency: ModCompWithPackage, options: ValidOptions, repository?: Repository): string | undefined {
+  if (!options.compareLinks || !repository)
+    return undefined
+
+  return getReleaseCompareUrl(repository, dependency.name, dependency.oldVersion, dependency.newVersion, options)
+}
+
+/**
+ * Formats a single updated dependency. The "dependencyTemplate" option takes precedence over the "showRange" and "showType" options.
+ * With the "compareLinks" option, the dependency is linked to the comparison of its old and new version.
+ *
+ * @example
+ * ```ts
+ * getDependencyItem(dependency, options); // Returns "pkg@2.0.0"
+ * getDependencyItem(dependency, { ...options, dependencies: { showRange: true, showType: true } }); // Returns "pkg: 1.0.0 → 2.0.0 (major)"
+ * getDependencyItem(dependency, { ...options, compareLinks: true }, repository);
+ * // Returns "[pkg@2.0.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0)"
+ * ```
+ */
+export function getDependencyItem(dependency: ModCompWithPackage, options: ValidOptions, repository?: Repository): string {
+  const compareUrl = getDependencyCompareUrl(dependency, options, repository)
+
+  if (options.dependencyTemplate)
+    return renderDependencyLine(options.dependencyTemplate, dependency, compareUrl)
+
+  const { showRange, showType } = options.dependencies ?? {}
+
+  const text = showRange
+    ? `${dependency.name}: ${dependency.oldVersion} → ${dependency.newVersion}`
+    : `${dependency.name}@${dependency.newVersion}`
+  const item = compareUrl ? `[${text}](${compareUrl})` : text
+
+  return showType ? `${item} (${dependency.type})` : item
+}
+
+/**
+ * Returns the link to the commit of a changeset.
+ * If the "linkPrs" option is enabled and a repository is passed, the PR is linked instead (if it can be found in git or the "metadataFile").
+ * "pr:" and "commit:" lines in the changeset summary take precedence.
+ * In shallow clones the commit that added the changeset file is linked if the commit itself isn't available.
+ * Commits that aren't reachable from the "defaultBranch" are linked according to the "unreachableCommits" option.
+ * The commit is linked in the repository of the released packages if the "packageRepos" option allows it, the PR is always linked in the "repo".
+ * Returns undefined if the changeset has no commit.
+ */
+export function getChangesetLink(changeset: NewChangesetWithCommit, options: ValidOptions, repository?: Repository): string | undefined {
+  const { overrides } = parseSummary(changeset.summary)
+  const commitOptions = getCommitOptions(changeset, options)
+  let commitSha = overrides.commit ?? changeset.commit
+
+  if (options.dependencies?.linkPrs) {
+    let prNumber = overrides.pr
+
+    if (prNumber === undefined && repository) {
+      const commit = resolveChangesetCommit(repository, changeset)
+
+      if (commit) {
+        commitSha = commit.id()
+
+        try {
+          prNumber = findPrNumber(repository, commit, options)
+        }
+        catch (error) {
+          reportUnresolvedChangeset({ id: changeset.id, commit: commitSha, reason: 'lookup-failed', message: `Looking up the commit failed: ${(error as Error).message}` })
+        }
+      }
+    }
+
+    prNumber ??= findPullRequestMetadata(getMetadataIndex(CWD, options), undefined, [commitSha])?.number
+
+    if (prNumber)
+      return getPrLink(options, prNumber)
+  }
+
+  if (commitSha)
+    return getCommitLink(commitOptions, commitSha, repository ? getCommitUrlOverride(repository, commitSha, commitOptions) : undefined)
+
+  return undefined
+}
+
+/**
+ * Formats a block of updated dependencies with the links of the changesets that updated them.
+ * The list is collapsed into a single line if it's longer than the "collapseThreshold" option.
+ *
+ * @example
+ * ```ts
+ * formatDependencyBlock(['[#12](url)'], ['pkg-1@1.0.0', 'pkg-2@2.0.0'], options);
+ * // Returns "- Updated dependencies [[#12](url)]:\n  - pkg-1@1.0.0\n  - pkg-2@2.0.0"
+ *
+ * formatDependencyBlock(['[#12](url)'], ['pkg-1@1.0.0', 'pkg-2@2.0.0'], { ...options, dependencies: { collapseThreshold: 1 } });
+ * // Returns "- Updated dependencies [[#12](url)]: pkg-1@1.0.0, pkg-2@2.0.0"
+ * ```
+ */
+export function formatDependencyBlock(links: string[], items: string[], options: ValidOptions): string {
+  const changesetLink = `- Updated dependencies${links.length > 0 ? ` [${links.join(', ')}]` : ''}:`
+  const collapseThreshold = options.dependencies?.collapseThreshold
+
+  if (collapseThreshold !== undefined && items.length > collapseThreshold)
+    return `${changesetLink} ${items.join(', ')}`
+
+  return [changesetLink, ...items.map(item => `  - ${item}`)].join('\n')
+}
+
+/**
+ * Groups the updated dependencies by the changeset that updated them and formats one block per changeset.
+ * Dependencies that weren't updated by any of the changesets are listed in a block without links at the end.
+ */
+export function formatDependencyBlocksByChangeset(changesets: NewChangesetWithCommit[], dependenciesUpdated: ModCompWithPackage[], options: ValidOptions, repository?: Repository): string {
+  const blocks: string[] = []
+  const changesetIds = new Set(changesets.map(changeset => changeset.id))
+
+  for (const changeset of changesets) {
+    const dependencies = dependenciesUpdated.filter(dependency => dependency.changesets.includes(changeset.id))
+
+    if (dependencies.length === 0)
+      continue
+
+    const link = getChangesetLink(changeset, options, repository)
+    blocks.push(formatDependencyBlock(link ? [link] : [], dependencies.map(dependency => getDependencyItem(dependency, options, repository)), options))
+  }
+
+  const ungroupedDependencies = dependenciesUpdated.filter(dependency => !dependency.changesets.some(id => changesetIds.has(id)))
+
+  if (ungroupedDependencies.length > 0)
+    blocks.push(formatDependencyBlock([], ungroupedDependencies.map(dependency => getDependencyItem(dependency, options, repository)), options))
+
+  return blocks.join('\n')
+}
@@ -0,0 +1,450 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { Commit, Repository, Tree, TreeEntry } from '@napi-rs/simple-git'
+import type { ValidOptions } from './types'
+import path from 'node:path'
+import { reportUnresolvedChangeset } from './_report'
+import { getBranchUrl, getPrNumber, parseSummary } from './_utils'
+import { CWD, DEFAULT_REMOTE } from './constants'
+
+/**
+ * Lookups are cached per repository, so they're gone as soon as the repository isn't used anymore
+ */
+const commitCache = new WeakMap<Repository, Map<string, Commit | null>>()
+const mergeCommitCache = new WeakMap<Repository, Map<string, Commit | undefined>>()
+const mergedCommitsCache = new WeakMap<Repository, Map<string, string[]>>()
+const mergeCommitIndexCache = new WeakMap<Repository, Map<string, string>>()
+const tagCache = new WeakMap<Repository, Set<string>>()
+const branchCommitsCache = new WeakMap<Repository, Map<string, Set<string> | null>>()
+const changedFilesCache = new WeakMap<Repository, Map<string, string[]>>()
+const changesetCommitIndexCache = new WeakMap<Repository, Map<string, string | null>>()
+
+function getCache<T>(cache: WeakMap<Repository, Map<string, T>>, repository: Repository): Map<string, T> {
+  let repositoryCache = cache.get(repository)
+
+  if (!repositoryCache) {
+    repositoryCache = new Map()
+    cache.set(repository, repositoryCache)
+  }
+
+  return repositoryCache
+}
+
+/**
+ * Finds a commit by its SHA. Git looks up objects by their SHA directly, so no walk through the history is needed.
+ * The result is memoized, so every commit is only looked up once.
+ * Errors (e.g. for invalid or ambiguous SHAs) are not cached and thrown as is.
+ */
+export function findCommit(repository: Repository, sha: string): Commit | null {
+  const cache = getCache(commitCache, repository)
+
+  if (!cache.has(sha))
+    cache.set(sha, repository.findCommit(sha))
+
+  return cache.get(sha)!
+}
+
+/**
+ * Returns all commits that a merge commit brought into its first parent.
+ * These are the commits reachable from the other parents that aren't reachable from the first parent.
+ * Returns an empty array for regular commits. The result is memoized, so every merge commit is only walked once.
+ */
+export function getMergedCommitShas(repository: Repository, mergeCommit: Commit): string[] {
+  const parentCount = Number(mergeCommit.parentCount())
+
+  if (parentCount < 2)
+    return []
+
+  const cache = getCache(mergedCommitsCache, repository)
+
+  if (!cache.has(mergeCommit.id())) {
+    const revWalk = repository.revWalk().hide(mergeCommit.parentId(0))
+
+    for (let i = 1; i < parentCount; i++) {
+      revWalk.push(mergeCommit.parentId(i))
+    }
+
+    cache.set(mergeCommit.id(), [...revWalk])
+  }
+
+  return cache.get(mergeCommit.id())!
+}
+
+/**
+ * Maps every commit that was brought into the current branch (HEAD) by a merge commit to that merge commit.
+ * The index is built once per repository with a single walk through the first-parent history.
+ */
+export function getMergeCommitIndex(repository: Repository): Map<string, string> {
+  let index = mergeCommitIndexCache.get(repository)
+
+  if (index)
+    return index
+
+  index = new Map()
+
+  for (const sha of repository.revWalk().pushHead().simplifyFirstParent()) {
+    const commit = findCommit(repository, sha)
+
+    if (!commit)
+      continue
+
+    for (const mergedSha of getMergedCommitShas(repository, commit)) {
+      index.set(mergedSha, sha)
+    }
+  }
+
+  mergeCommitIndexCache.set(repository, index)
+
+  return index
+}
+
+/**
+ * Finds the merge commit that brought the given commit into the current branch (HEAD).
+ * It walks the first-parent history of HEAD (stopping at the commit itself) from oldest to newest and returns the first merge commit that contains the commit.
+ * The commits of every merge commit are only collected once, so looking up many commits only walks the first-parent history again.
+ * With "prefetch" the merge commit index of the whole history is used instead, which is faster when many commits are looked up.
+ * Returns undefined if the commit is part of the first-parent history itself, e.g. for squash or rebase merges.
+ * The result is memoized.
+ *
+ * @example
+ * ```ts
+ * // History: "Merge pull request #123 from org/branch" merged the commit "abc123..."
+ * const mergeCommit = findMergeCommit(repository, 'abc123...');
+ * mergeCommit?.message(); // Returns "Merge pull request #123 from org/branch"
+ * ```
+ */
+export function findMergeCommit(repository: Repository, commitSha: string, prefetch = false): Commit | undefined {
+  const cache = getCache(mergeCommitCache, repository)
+
+  if (cache.has(commitSha))
+    return cache.get(commitSha)
+
+  let mergeCommit: Commit | undefined
+
+  if (prefetch) {
+    const mergeSha = getMergeCommitIndex(repository).get(commitSha)
+    mergeCommit = mergeSha ? findCommit(repository, mergeSha) ?? undefined : undefined
+  }
+  else {
+    const firstParentHistory = [...repository.revWalk().pushHead().simplifyFirstParent().hide(commitSha)].reverse()
+
+    for (const sha of firstParentHistory) {
+      const commit = findCommit(repository, sha)
+
+      if (commit && getMergedCommitShas(repository, commit).includes(commitSha)) {
+        mergeCommit = commit
+        break
+      }
+    }
+  }
+
+  cache.set(commitSha, mergeCommit)
+
+  return mergeCommit
+}
+
+/**
+ * Finds the PR number of a commit.
+ * Without squash merges the PR number is only part of the merge commit that brought the commit into the branch, so that one is used as a fallback.
+ */
+export function findPrNumber(repository: Repository, commit: Commit, options: ValidOptions): number | undefined {
+  return getPrNumber(commit.message() ?? undefined, options)
+    ?? getPrNumber(findMergeCommit(repository, commit.id(), options.prefetch)?.message() ?? undefined, options)
+}
+
+/**
+ * Checks if a tag exists in the local repository. The tag names are only read once per repository.
+ *
+ * @example
+ * ```ts
+ * tagExists(repository, 'pkg@1.0.0'); // Returns true if "git tag" lists "pkg@1.0.0"
+ * ```
+ */
+export function tagExists(repository: Repository, tag: string): boolean {
+  let tags = tagCache.get(repository)
+
+  if (!tags) {
+    tags = new Set(repository.tagNames())
+    tagCache.set(repository, tags)
+  }
+
+  return tags.has(tag)
+}
+
+/**
+ * Returns all commits that are reachable from a branch. The remote-tracking branch is preferred, so that commits that were only merged locally don't count.
+ * Returns null (and warns once) if neither the remote-tracking nor the local branch exists.
+ */
+function getBranchCommits(repository: Repository, branch: string, remote = DEFAULT_REMOTE): Set<string> | null {
+  const cache = getCache(branchCommitsCache, repository)
+
+  if (cache.has(branch))
+    return cache.get(branch)!
+
+  let commits: Set<string> | null = null
+
+  for (const ref of [`refs/remotes/${remote}/${branch}`, `refs/heads/${branch}`]) {
+    try {
+      commits = new Set(repository.revWalk().pushRef(ref))
+      break
+    }
+    catch {
+      // The branch doesn't exist (locally), try the next one
+    }
+  }
+
+  if (!commits)
+    console.warn(`Couldn't find the default branch "${branch}", so all commits are linked.`)
+
+  cache.set(branch, commits)
+
+  return commits
+}
+
+/**
+ * Checks if a commit is reachable from the "defaultBranch" option. Short SHAs are resolved first.
+ * Without the option, every commit counts as reachable. So do commits that aren't part of the local git history and all commits if the branch can't be found.
+ */
+export function isReachableFromDefaultBranch(repository: Repository, commitSha: string, options: ValidOptions): boolean {
+  if (!options.defaultBranch)
+    return true
+
+  let commit: Commit | null
+
+  try {
+    commit = findCommit(repository, commitSha)
+  }
+  catch {
+    return true
+  }
+
+  if (!commit)
+    return true
+
+  return getBranchCommits(repository, options.defaultBranch, options.remote)?.has(commit.id()) ?? true
+}
+
+/**
+ * Returns the URL to link a commit with, depending on the "unreachableCommits" option:
+ * - undefined for commits that are reachable from the default branch, so that the commit itself is linked
+ * - The tree of the current branch with "branch" (if HEAD is a branch)
+ * - null otherwise, so that the commit isn't linked
+ *
+ * @example
+ * ```ts
+ * // HEAD is the branch "next" and "abc123..." isn't part of "main"
+ * getCommitUrlOverride(repository, 'abc123...', { repo: 'owner/repo', defaultBranch: 'main', unreachableCommits: 'branch' });
+ * // Returns "https://github.com/owner/repo/tree/next"
+ * ```
+ */
+export function getCommitUrlOverride(repository: Repository, commitSha: string, options: ValidOptions): string | null | undefined {
+  if (isReachableFromDefaultBranch(repository, commitSha, options))
+    return undefined
+
+  if (options.unreachableCommits === 'branch') {
+    const head = repository.head()
+    const branch = head.isBranch() ? head.shorthand() : null
+
+    return branch ? getBranchUrl(options, branch) : null
+  }
+
+  return null
+}
+
+/**
+ * Compares two trees and collects the paths of all files that were added, changed or removed.
+ * Subtrees with the same id are unchanged, so they're skipped.
+ */
+function collectChangedFiles(repository: Repository, tree: Tree | null, parentTree: Tree | null, prefix: string, files: string[]): void {
+  const names = new Set<string>()
+
+  for (const currentTree of [tree, parentTree]) {
+    for (const entry of currentTree?.iter() ?? []) {
+      names.add(entry.name())
+    }
+  }
+
+  for (const name of names) {
+    const entry: TreeEntry | null | undefined = tree?.getName(name)
+    const parentEntry = parentTree?.getName(name)
+
+    if (entry && parentEntry && entry.id() === parentEntry.id())
+      continue
+
+    // Blobs aren't trees, so they're null
+    const subtree = entry ? repository.findTree(entry.id()) : null
+    const parentSubtree = parentEntry ? repository.findTree(parentEntry.id()) : null
+
+    if (subtree || parentSubtree)
+      collectChangedFiles(repository, subtree, parentSubtree, `${prefix}${name}/`, files)
+
+    if ((entry && !subtree) || (parentEntry && !parentSubtree))
+      files.push(`${prefix}${name}`)
+  }
+}
+
+/**
+ * Returns the paths of all files that a commit changed, relative to the root of the repository.
+ * Merge commits are compared with their first parent. The result is memoized.
+ *
+ * @example
+ * ```ts
+ * getChangedFiles(repository, commit); // Returns [".changeset/brave-lions.md", "src/index.ts"]
+ * ```
+ */
+export function getChangedFiles(repository: Repository, commit: Commit): string[] {
+  const cache = getCache(changedFilesCache, repository)
+
+  if (!cache.has(commit.id())) {
+    const parent = Number(commit.parentCount()) > 0 ? findCommit(repository, commit.parentId(0)) : null
+    const files: string[] = []
+
+    collectChangedFiles(repository, commit.tree(), parent?.tree() ?? null, '', files)
+    cache.set(commit.id(), files.sort())
+  }
+
+  return cache.get(commit.id())!
+}
+
+/**
+ * Returns the path of the ".changeset" directory relative to the root of the repository
+ */
+function getChangesetDir(repository: Repository): string {
+  const workdir = repository.workdir()
+  const dir = path.join(CWD, '.changeset')
+
+  return (workdir ? path.relative(workdir, dir) : '.changeset').split(path.sep).join('/')
+}
+
+/**
+ * Returns the path of the changeset file relative to the root of the repository, e.g. ".changeset/brave-lions-dance.md"
+ */
+export function getChangesetPath(repository: Repository, changesetId: string): string {
+  return `${getChangesetDir(repository)}/${changesetId}.md`
+}
+
+/**
+ * Returns the names of the files in a directory of the commit's tree
+ */
+function getDirFiles(repository: Repository, commit: Commit, dir: string): Set<string> {
+  let tree: Tree | null = commit.tree()
+
+  for (const name of dir.split('/')) {
+    const entry: TreeEntry | null | undefined = tree?.getName(name)
+    tree = entry ? repository.findTree(entry.id()) : null
+  }
+
+  return new Set([...tree?.iter() ?? []].map(entry => entry.name()))
+}
+
+/**
+ * Maps the file names in the ".changeset" directory to the commit that added them, with a single walk through the available history of HEAD.
+ * That's the newest commit that contains the file while none of its parents do.
+ * In a shallow clone a commit at the boundary of the history doesn't count, as the file could've been added before it. These files are mapped to null.
+ */
+function getChangesetCommitIndex(repository: Repository): Map<string, string | null> {
+  let index = changesetCommitIndexCache.get(repository)
+
+  if (index)
+    return index
+
+  index = new Map()
+
+  const dir = getChangesetDir(repository)
+  const filesCache = new Map<string, Set<string>>()
+  const getFiles = (commit: Commit) => {
+    if (!filesCache.has(commit.id()))
+      filesCache.set(commit.id(), getDirFiles(repository, commit, dir))
+
+    return filesCache.get(commit.id())!
+  }
+
+  for (const sha of repository.revWalk().pushHead()) {
+    const commit = findCommit(repository, sha)
+
+    if (!commit)
+      continue
+
+    const files = [...getFiles(commit)].filter(file => !index.has(file))
+
+    if (files.length === 0)
+      continue
+
+    const parentCount = Number(commit.parentCount())
+    const parents = Array.from({ length: parentCount }, (_, i) => {
+      try {
+        return findCommit(repository, commit.parentId(i))
+      }
+      catch {
+        return null
+      }
+    })
+
+    for (const file of files) {
+      if (parentCount === 0)
+        index.set(file, repository.isShallow() ? null : sha)
+      // A parent that's missing from a shallow clone might contain the file, too
+      else if (parents.some(parent => !parent))
+        index.set(file, null)
+      else if (!parents.some(parent => getFiles(parent!).has(file)))
+        index.set(file, sha)
+    }
+  }
+
+  changesetCommitIndexCache.set(repository, index)
+
+  return index
+}
+
+/**
+ * Finds the commit that added the changeset file in the available history of HEAD.
+ * The history is only walked once per repository, so looking up many changesets stays fast.
+ *
+ * @example
+ * ```ts
+ * findChangesetCommit(repository, 'brave-lions-dance')?.id(); // Returns the SHA of the commit that added ".changeset/brave-lions-dance.md"
+ * ```
+ */
+export function findChangesetCommit(repository: Repository, changesetId: string): Commit | undefined {
+  const sha = getChangesetCommitIndex(repository).get(`${changesetId}.md`)
+
+  return sha ? findCommit(repository, sha) ?? undefined : undefined
+}
+
+/**
+ * Resolves the commit of a changeset. A "commit:" line in the changeset summary takes precedence.
+ * If the repository is a shallow clone and the commit isn't available, the commit that added the changeset file is used instead.
+ * Changesets whose commit can't be resolved are reported at the end of the run.
+ */
+export function resolveChangesetCommit(repository: Repository, changeset: NewChangesetWithCommit): Commit | undefined {
+  const { overrides } = parseSummary(changeset.summary)
+  const commitSha = overrides.commit ?? changeset.commit
+
+  if (commitSha) {
+    try {
+      const commit = findCommit(repository, commitSha)
+
+      if (commit)
+        return commit
+    }
+    catch (error) {
+      reportUnresolvedChangeset({ id: changeset.id, commit: commitSha, reason: 'lookup-failed', message: `Looking up the commit failed: ${(error as Error).message}` })
+
+      return undefined
+    }
+  }
+
+  // A commit from the summary is intentional, so it's not replaced
+  const recoveredCommit = !overrides.commit && repository.isShallow() ? findChangesetCommit(repository, changeset.id) : undefined
+
+  if (recoveredCommit)
+    return recoveredCommit
+
+  if (commitSha) {
+    reportUnresolvedChangeset({ id: changeset.id, commit: commitSha, reason: 'commit-not-found', message: 'The commit isn\'t part of the local git history' })
+  }
+  else {
+    reportUnresolvedChangeset({ id: changeset.id, reason: 'missing-commit', message: 'The changeset has no commit and the commit that added it couldn\'t be found' })
+  }
+
+  return undefined
+}
@@ -0,0 +1,106 @@
+import type { Repository } from '@napi-rs/simple-git'
+import type { ResolvedChangeset } from './_resolve'
+import type { ValidOptions } from './types'
+import { getConventionalScope } from './_conventional'
+import { getChangedFiles } from './_git'
+import { formatSummaryBody } from './_markdown'
+
+const INTERNAL_LABEL = 'Internal'
+
+/**
+ * Regular expression to match the changeset files, which are part of every commit that adds a changeset
+ */
+const CHANGESET_FILE_REGEX = /(?:^|\/)\.changeset\/[^/]+$/
+
+/**
+ * Regular expression to match the special characters of a regular expression
+ */
+const REGEX_SPECIAL_CHARS_REGEX = /[$()+.[\\\]^{|}]/g
+
+/**
+ * Converts a glob pattern to a regular expression that matches paths relative to the root of the repository.
+ * "*" and "?" don't match slashes, "**" matches any number of directories and a trailing slash matches everything in a directory.
+ *
+ * @example
+ * ```ts
+ * globToRegExp('tooling/**').test('tooling/scripts/release.ts'); // Returns true
+ * globToRegExp('**\/*.test.ts').test('src/index.test.ts'); // Returns true
+ * globToRegExp('*.md').test('docs/guide.md'); // Returns false
+ * ```
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = pattern.endsWith('/') ? `${pattern}**` : pattern
+  let source = ''
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]
+
+    if (char === '*' && glob[index + 1] === '*') {
+      // "**/" matches no directory, too
+      source += glob[index + 2] === '/' ? '(?:.*/)?' : '.*'
+      index += glob[index + 2] === '/' ? 2 : 1
+    }
+    else if (char === '*') {
+      source += '[^/]*'
+    }
+    else if (char === '?') {
+      source += '[^/]'
+    }
+    else {
+      source += char.replace(REGEX_SPECIAL_CHARS_REGEX, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Checks if a changeset is an internal change according to the "internalChanges" option:
+ * - The summary contains an "internal: true" line (unless "marker" is disabled)
+ * - The Conventional Commit scope of the summary or the commit subject is one of the "scopes"
+ * - The commit only changed files that match the "paths" (changeset files are ignored)
+ *
+ * @example
+ * ```ts
+ * isInternalChange(repository, resolveChangeset(repository, changeset, options), { repo: 'owner/repo', internalChanges: { scopes: ['ci'] } });
+ * // Returns true for a changeset with the summary "ci: Update workflow"
+ * ```
+ */
+export function isInternalChange(repository: Repository, resolved: ResolvedChangeset, options: ValidOptions): boolean {
+  const { internalChanges } = options
+
+  if (!internalChanges)
+    return false
+
+  if (internalChanges.marker !== false && resolved.overrides.internal)
+    return true
+
+  if (internalChanges.scopes?.length) {
+    const scope = getConventionalScope(resolved.summary, resolved.commitMessage, options)
+
+    if (scope && internalChanges.scopes.includes(scope))
+      return true
+  }
+
+  if (internalChanges.paths?.length && resolved.commit) {
+    const patterns = internalChanges.paths.map(globToRegExp)
+    const files = getChangedFiles(repository, resolved.commit).filter(file => !CHANGESET_FILE_REGEX.test(file))
+
+    return files.length > 0 && files.every(file => patterns.some(pattern => pattern.test(file)))
+  }
+
+  return false
+}
+
+/**
+ * Formats a release line as a collapsed "Internal" block, so that it doesn't distract from the user facing changes
+ *
+ * @example
+ * ```ts
+ * formatInternalReleaseLine('Update workflow ([#12](...))', []);
+ * // Returns "\n- <details><summary>Internal</summary>\n\n  Update workflow ([#12](...))\n\n  </details>\n"
+ * ```
+ */
+export function formatInternalReleaseLine(entry: string, restOfLines: string[]): string {
+  return `\n- <details><summary>${INTERNAL_LABEL}</summary>\n\n${[`  ${entry}`, ...formatSummaryBody(restOfLines)].join('\n')}\n\n  </details>\n`
+}
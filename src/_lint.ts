@@ -0,0 +1,156 @@
+import type { Commit, Repository } from '@napi-rs/simple-git'
+import type { ChangesetWithId } from './_changesets'
+import type { ChangesetLintResult, LintProblem, LintResult, ValidOptions } from './types'
+import { parseChangeset, readChangesetConfig, readChangesetFiles } from './_changesets'
+import { findChangesetCommit, findCommit, findPrNumber, getChangesetPath } from './_git'
+import { findPullRequestMetadata, getMetadataIndex } from './_metadata'
+import { resolveOptions } from './_remote'
+import { getRepository, getShortSha, parseSummary, validate } from './_utils'
+import { CWD } from './constants'
+
+/**
+ * Regular expressions to match the override lines of a changeset summary, no matter if they're well formed
+ */
+const PR_OVERRIDE_LINE_REGEX = /^\s*(?:pr|pull|pull\s+request):/i
+const COMMIT_OVERRIDE_LINE_REGEX = /^\s*commit:/i
+
+/**
+ * Regular expressions to match well formed override lines, e.g. "pr: #123" or "commit: a1b2c3d".
+ * Like in `parseSummary`, text after the value is allowed and stays part of the summary, e.g. "pr: #123 Add feature"
+ */
+const VALID_PR_OVERRIDE_REGEX = /^\s*(?:pr|pull|pull\s+request):\s*#?\d+(?:\s|$)/i
+const VALID_COMMIT_OVERRIDE_REGEX = /^\s*commit:\s*[\da-f]{7,40}(?:\s|$)/i
+
+/**
+ * Checks the "pr:" and "commit:" lines of a changeset file.
+ * They must contain a PR number or a (short) commit SHA and may only be used once.
+ *
+ * @example
+ * ```ts
+ * getOverrideProblems('---\n"pkg": patch\n---\n\nFix bug\n\npr: next');
+ * // Returns [{ rule: 'invalid-override', message: 'The "pr:" line must contain a PR number, e.g. "pr: #123"', line: 7 }]
+ * ```
+ */
+export function getOverrideProblems(content: string): LintProblem[] {
+  const problems: LintProblem[] = []
+  const seen = new Set<string>()
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const key = PR_OVERRIDE_LINE_REGEX.test(line) ? 'pr' : COMMIT_OVERRIDE_LINE_REGEX.test(line) ? 'commit' : undefined
+
+    if (!key)
+      return
+
+    if (seen.has(key)) {
+      problems.push({ rule: 'invalid-override', message: `Only the first "${key}:" line is used. Remove the other ones`, line: index + 1 })
+    }
+    else if (key === 'pr' && !VALID_PR_OVERRIDE_REGEX.test(line)) {
+      problems.push({ rule: 'invalid-override', message: 'The "pr:" line must contain a PR number, e.g. "pr: #123"', line: index + 1 })
+    }
+    else if (key === 'commit' && !VALID_COMMIT_OVERRIDE_REGEX.test(line)) {
+      problems.push({ rule: 'invalid-override', message: 'The "commit:" line must contain a commit SHA with at least 7 characters, e.g. "commit: a1b2c3d"', line: index + 1 })
+    }
+
+    seen.add(key)
+  })
+
+  return problems
+}
+
+/**
+ * Checks a single changeset: Its commit must be part of the local git history and a PR must be found for it.
+ * Like for the changelog, the PR may also come from the "metadataFile".
+ */
+export function lintChangeset(changeset: ChangesetWithId, content: string, repository: Repository, options: ValidOptions): ChangesetLintResult {
+  const { overrides } = parseSummary(changeset.summary)
+  const problems = getOverrideProblems(content)
+  let commit: Commit | null | undefined
+  let pr = overrides.pr
+
+  try {
+    commit = overrides.commit ? findCommit(repository, overrides.commit) : findChangesetCommit(repository, changeset.id)
+    pr ??= commit ? findPrNumber(repository, commit, options) : undefined
+    pr ??= findPullRequestMetadata(getMetadataIndex(CWD, options), undefined, [commit?.id(), overrides.commit])?.number
+  }
+  catch (error) {
+    problems.push({ rule: 'missing-commit', message: `Looking up the commit failed: ${(error as Error).message}`, line: 1 })
+  }
+
+  if (!commit && problems.every(problem => problem.rule !== 'missing-commit')) {
+    problems.push({
+      rule: 'missing-commit',
+      message: overrides.commit
+        ? `The commit ${overrides.commit} from the "commit:" line isn't part of the local git history`
+        : 'The changeset isn\'t committed yet or the commit that added it isn\'t part of the local git history',
+      line: 1,
+    })
+  }
+
+  if (pr === undefined && commit) {
+    problems.push({ rule: 'missing-pr', message: `The commit ${getShortSha(commit.id())} doesn't reference a PR, so the changelog would only link the commit. Use a PR number in the commit subject or add a "pr:" line`, line: 1 })
+  }
+
+  return { id: changeset.id, file: getChangesetPath(repository, changeset.id), commit: commit?.id(), pr, problems }
+}
+
+/**
+ * Checks all pending changesets in the ".changeset" directory against the local git history.
+ * The options of the "changelog" entry in ".changeset/config.json" are used, e.g. for custom PR patterns.
+ *
+ * @example
+ * ```ts
+ * const { problemCount, changesets } = lintChangesets();
+ * // changesets: [{ id: 'brave-lions', file: '.changeset/brave-lions.md', commit: 'a1b2c3d...', pr: 12, problems: [] }]
+ * ```
+ */
+export function lintChangesets(): LintResult {
+  const options = resolveOptions(readChangesetConfig(CWD).changelogOptions)
+  validate(options)
+
+  const repository = getRepository()
+  const changesets = readChangesetFiles(CWD).map(({ id, content }) => lintChangeset(parseChangeset(content, id), content, repository, options))
+
+  return { changesets, problemCount: changesets.reduce((count, changeset) => count + changeset.problems.length, 0) }
+}
+
+export type LintFormat = 'text' | 'json' | 'github'
+
+export const LINT_FORMATS: LintFormat[] = ['text', 'json', 'github']
+
+/**
+ * Escapes the data of a GitHub Actions workflow command
+ */
+function escapeAnnotation(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A')
+}
+
+/**
+ * Formats the result of `lintChangesets`:
+ * - "text": One line per problem and a summary
+ * - "json": The result as JSON
+ * - "github": GitHub Actions annotations, so that the problems show up in the changed files of a PR
+ *
+ * @example
+ * ```ts
+ * formatLintResult(result, 'github');
+ * // Returns "::error file=.changeset/brave-lions.md,line=1,title=missing-pr::The commit a1b2c3d doesn't reference a PR, ..."
+ * ```
+ */
+export function formatLintResult(result: LintResult, format: LintFormat): string {
+  const problems = result.changesets.flatMap(changeset => changeset.problems.map(problem => ({ ...problem, file: changeset.file })))
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2)
+    case 'github':
+      return problems.map(({ file, line, rule, message }) => `::error file=${file},line=${line},title=${rule}::${escapeAnnotation(message)}`).join('\n')
+    default: {
+      const count = `${result.changesets.length} changeset${result.changesets.length === 1 ? '' : 's'}`
+      const summary = problems.length === 0
+        ? `No problems found in ${count}.`
+        : `Found ${problems.length} problem${problems.length === 1 ? '' : 's'} in ${count}.`
+
+      return [...problems.map(({ file, line, rule, message }) => `${file}:${line} ${rule}: ${message}`), summary].join('\n')
+    }
+  }
+}
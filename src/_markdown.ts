@@ -0,0 +1,164 @@
+/**
+ * Regular expression to match the opening or closing line of a fenced code block
+ */
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Regular expression to match inline Markdown that must not be changed:
+ * Code spans, inline and reference links, images, autolinks and bare URLs
+ */
+const INLINE_PROTECTED_REGEX = /(`+)[\s\S]*?\1|!?\[[^\]]*\](?:\([^)]*\)|\[[^\]]*\])|<[^>\s]+>|https?:\/\/\S+/g
+
+/**
+ * Applies the replacer to the inline text between code spans, links and URLs
+ */
+function replaceInline(text: string, replacer: (text: string) => string): string {
+  let result = ''
+  let lastIndex = 0
+
+  for (const match of text.matchAll(INLINE_PROTECTED_REGEX)) {
+    result += replacer(text.slice(lastIndex, match.index)) + match[0]
+    lastIndex = match.index + match[0].length
+  }
+
+  return result + replacer(text.slice(lastIndex))
+}
+
+/**
+ * Applies the replacer to the plain text parts of a Markdown string.
+ * Fenced code blocks, code spans, links, images, autolinks and bare URLs are left untouched.
+ *
+ * @example
+ * ```ts
+ * replaceInText('Fix #1 in `#2` and [#3](url)', text => text.toUpperCase());
+ * // Returns "FIX #1 IN `#2` AND [#3](url)"
+ * ```
+ */
+export function replaceInText(markdown: string, replacer: (text: string) => string): string {
+  const result: string[] = []
+  let textLines: string[] = []
+  let openingFence: string | undefined
+
+  const flushTextLines = () => {
+    if (textLines.length > 0) {
+      result.push(replaceInline(textLines.join('\n'), replacer))
+      textLines = []
+    }
+  }
+
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(FENCE_REGEX)?.[1]
+
+    if (openingFence) {
+      result.push(line)
+
+      if (fence && fence[0] === openingFence[0] && fence.length >= openingFence.length)
+        openingFence = undefined
+    }
+    else if (fence) {
+      flushTextLines()
+      result.push(line)
+      openingFence = fence
+    }
+    else {
+      textLines.push(line)
+    }
+  }
+
+  flushTextLines()
+
+  return result.join('\n')
+}
+
+/**
+ * Regular expression to match the opening sequence of an ATX heading, e.g. "## Usage"
+ */
+const ATX_HEADING_REGEX = /^ {0,3}(#{1,6})(?=[ \t]|$)/
+
+/**
+ * Regular expression to match the underline of a setext heading, e.g. "===" or "---"
+ */
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(?:=+|-{2,})[ \t]*$/
+
+/**
+ * Regular expression to match lines that start a block other than a paragraph, e.g. list items, quotes and tables
+ */
+const BLOCK_START_REGEX = /^ {0,3}(?:[-*+>#|]|\d{1,9}[.)])/
+
+/**
+ * The version sections of a changelog use "##" and "###", so headings in a release line start at "####"
+ */
+const MIN_HEADING_LEVEL = 4
+
+const MAX_HEADING_LEVEL = 6
+
+/**
+ * Removes the heading marker from the first line of a summary, because it becomes the text of a list item
+ *
+ * @example
+ * ```ts
+ * formatSummaryTitle('## Add feature'); // Returns "Add feature"
+ * ```
+ */
+export function formatSummaryTitle(line: string): string {
+  return line.replace(ATX_HEADING_REGEX, '').trim()
+}
+
+/**
+ * Formats the lines after the first line of a summary as the content of a list item:
+ * - Lines are indented with two spaces, lines inside fenced code blocks are kept as they are otherwise
+ * - Empty lines stay empty, so that no trailing whitespace is added
+ * - Headings are shifted to start at "####", so that they don't break the sections of the changelog. Setext headings are turned into ATX headings
+ *
+ * @example
+ * ```ts
+ * formatSummaryBody(['', '# Usage', '', '```sh', 'pnpm add pkg', '```']);
+ * // Returns ['', '  #### Usage', '', '  ```sh', '  pnpm add pkg', '  ```']
+ * ```
+ */
+export function formatSummaryBody(lines: string[]): string[] {
+  const result: string[] = []
+  const headings: Array<{ index: number, level: number }> = []
+  let openingFence: string | undefined
+  // The number of lines of the current paragraph. Only a single line paragraph is turned into a heading by a setext underline
+  let paragraphLines = 0
+
+  for (let line of lines) {
+    const fence = line.match(FENCE_REGEX)?.[1]
+
+    if (openingFence) {
+      if (fence && fence[0] === openingFence[0] && fence.length >= openingFence.length)
+        openingFence = undefined
+    }
+    else if (fence) {
+      openingFence = fence
+      paragraphLines = 0
+    }
+    else if (paragraphLines === 1 && SETEXT_UNDERLINE_REGEX.test(line)) {
+      headings.push({ index: result.length - 1, level: line.trim().startsWith('=') ? 1 : 2 })
+      paragraphLines = 0
+      continue
+    }
+    else {
+      const heading = line.match(ATX_HEADING_REGEX)?.[1]
+
+      if (heading) {
+        headings.push({ index: result.length, level: heading.length })
+        line = line.replace(ATX_HEADING_REGEX, '')
+      }
+
+      paragraphLines = heading || !line.trim() || BLOCK_START_REGEX.test(line) ? 0 : paragraphLines + 1
+    }
+
+    result.push(line)
+  }
+
+  const offset = Math.max(0, MIN_HEADING_LEVEL - Math.min(...headings.map(heading => heading.level)))
+
+  for (const { index, level } of headings) {
+    result[index] = `${'#'.repeat(Math.min(level + offset, MAX_HEADING_LEVEL))} ${result[index].trim()}`.trimEnd()
+  }
+
+  // Empty lines stay empty, so that no trailing whitespace is added
+  return result.map(line => line.trim() ? `  ${line}` : '')
+}
@@ -0,0 +1,154 @@
+import type { PullRequestMetadata, ValidOptions } from './types'
+import fs from 'node:fs'
+import path from 'node:path'
+
+export interface MetadataIndex {
+  pullRequests: Map<number, PullRequestMetadata>
+  /**
+   * Maps the SHAs of all commits (including merge commits) to their PR
+   */
+  commits: Map<string, PullRequestMetadata>
+}
+
+/**
+ * The parsed metadata files, keyed by their absolute path. Missing files are cached as null.
+ */
+const metadataCache = new Map<string, MetadataIndex | null>()
+
+/**
+ * Returns the username of a user, which is either a string or an object with a "login" like in the output of `gh pr list --json`
+ */
+function getLogin(user: unknown): string | undefined {
+  if (typeof user === 'string')
+    return user
+
+  return typeof (user as { login?: unknown } | null)?.login === 'string' ? (user as { login: string }).login : undefined
+}
+
+/**
+ * Returns the SHA of a commit, which is either a string or an object with an "oid" like in the output of `gh pr list --json`
+ */
+function getOid(commit: unknown): string | undefined {
+  if (typeof commit === 'string')
+    return commit
+
+  return typeof (commit as { oid?: unknown } | null)?.oid === 'string' ? (commit as { oid: string }).oid : undefined
+}
+
+/**
+ * Normalizes a single entry of the metadata file.
+ * Plain values and the nested objects of `gh pr list --json` are both supported, e.g. "author": "octocat" or "author": { "login": "octocat" }.
+ *
+ * @example
+ * ```ts
+ * normalizeMetadata({ number: 12, title: 'Add feature', author: { login: 'octocat' }, labels: [{ name: 'feature' }], mergeCommit: { oid: 'abc123...' } });
+ * // Returns { number: 12, title: 'Add feature', author: 'octocat', labels: ['feature'], mergedBy: undefined, commits: ['abc123...'] }
+ * ```
+ */
+export function normalizeMetadata(entry: Record<string, any>): PullRequestMetadata {
+  if (!Number.isInteger(entry?.number) || entry.number <= 0) {
+    throw new Error(`Every entry needs a PR number, e.g. { "number": 123 }. Invalid entry: ${JSON.stringify(entry)}`)
+  }
+
+  const labels = Array.isArray(entry.labels) ? entry.labels : []
+  const commits = Array.isArray(entry.commits) ? entry.commits : []
+
+  return {
+    number: entry.number,
+    title: typeof entry.title === 'string' ? entry.title : undefined,
+    author: getLogin(entry.author),
+    labels: labels.map((label: unknown) => typeof label === 'string' ? label : (label as { name?: unknown } | null)?.name).filter((label: unknown): label is string => typeof label === 'string'),
+    mergedBy: getLogin(entry.mergedBy),
+    commits: [...commits, entry.mergeCommit, entry.headRefOid].map(getOid).filter((sha): sha is string => Boolean(sha)),
+  }
+}
+
+/**
+ * Parses the content of a metadata file. Either a JSON array of PRs or one JSON object per line (NDJSON).
+ */
+export function parseMetadataFile(content: string, file: string): PullRequestMetadata[] {
+  if (content.trim() === '')
+    return []
+
+  let entries: unknown[]
+
+  try {
+    const json = JSON.parse(content)
+    entries = Array.isArray(json) ? json : [json]
+  }
+  catch {
+    entries = content.split(/\r?\n/).flatMap((line, index) => {
+      if (line.trim() === '')
+        return []
+
+      try {
+        return [JSON.parse(line)]
+      }
+      catch (error) {
+        throw new Error(`Couldn't parse line ${index + 1} of the metadata file "${file}": ${(error as Error).message}`)
+      }
+    })
+  }
+
+  return entries.map(entry => normalizeMetadata(entry as Record<string, any>))
+}
+
+/**
+ * Reads the file of the "metadataFile" option and indexes its PRs by number and commit SHA. The file is only read once.
+ * Returns undefined without the option or if the file doesn't exist.
+ */
+export function getMetadataIndex(cwd: string, options: ValidOptions): MetadataIndex | undefined {
+  if (!options.metadataFile)
+    return undefined
+
+  const filePath = path.resolve(cwd, options.metadataFile)
+
+  if (!metadataCache.has(filePath)) {
+    let index: MetadataIndex | null = null
+
+    if (fs.existsSync(filePath)) {
+      index = { pullRequests: new Map(), commits: new Map() }
+
+      for (const pullRequest of parseMetadataFile(fs.readFileSync(filePath, 'utf8'), options.metadataFile)) {
+        index.pullRequests.set(pullRequest.number, pullRequest)
+
+        for (const sha of pullRequest.commits) {
+          index.commits.set(sha, pullRequest)
+        }
+      }
+    }
+
+    metadataCache.set(filePath, index)
+  }
+
+  return metadataCache.get(filePath) ?? undefined
+}
+
+export function clearMetadataCache(): void {
+  metadataCache.clear()
+}
+
+/**
+ * Finds the metadata of a PR by its number. Without a number, the PR is looked up by the SHAs of its commits.
+ *
+ * @example
+ * ```ts
+ * findPullRequestMetadata(index, undefined, ['abc123...']); // Returns the PR that contains the commit "abc123..."
+ * ```
+ */
+export function findPullRequestMetadata(index: MetadataIndex | undefined, prNumber: number | undefined, commitShas: Array<string | undefined>): PullRequestMetadata | undefined {
+  if (!index)
+    return undefined
+
+  if (prNumber !== undefined)
+    return index.pullRequests.get(prNumber)
+
+  for (const sha of commitShas) {
+    const pullRequest = sha ? index.commits.get(sha) : undefined
+
+    if (pullRequest)
+      return pullRequest
+  }
+
+  return undefined
+}
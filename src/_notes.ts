@@ -0,0 +1,130 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { ReleaseNote, ReleaseNotes, ValidOptions } from './types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { getCommitUrl, getPrUrl, getUserUrl } from './_utils'
+import { getReleasePlan } from './_workspace'
+
+const DEFAULT_RELEASE_NOTES_FILE = 'release-notes.json'
+
+/**
+ * The new versions of the released packages, keyed by the directory they were read from.
+ * The release plan only has to be assembled once per `changeset version` run.
+ */
+const releaseVersionsCache = new Map<string, Promise<Map<string, string>>>()
+
+async function readReleaseVersions(cwd: string): Promise<Map<string, string>> {
+  try {
+    const { releases } = await getReleasePlan(cwd)
+
+    return new Map(releases.map(release => [release.name, release.newVersion]))
+  }
+  catch (error) {
+    console.warn(`Couldn't assemble the release plan, so no release notes are recorded: ${(error as Error).message}`)
+
+    return new Map()
+  }
+}
+
+/**
+ * Returns the new version of every package that is released by the pending changesets.
+ * `changeset version` calls the changelog functions before it updates the package.json files and removes the changesets, so the release plan can be assembled from the files.
+ * The versions of the pre mode (e.g. "1.1.0-beta.0") are used, too. If the release plan can't be assembled, a warning is printed and an empty map is returned.
+ */
+export function getReleaseVersions(cwd: string): Promise<Map<string, string>> {
+  let versions = releaseVersionsCache.get(cwd)
+
+  if (!versions) {
+    versions = readReleaseVersions(cwd)
+    releaseVersionsCache.set(cwd, versions)
+  }
+
+  return versions
+}
+
+export function clearReleaseVersionsCache(): void {
+  releaseVersionsCache.clear()
+}
+
+/**
+ * Returns the path of the JSON file of the "releaseNotes" option
+ *
+ * @example
+ * ```ts
+ * getReleaseNotesPath('/repo', { repo: 'owner/repo', releaseNotes: true }); // Returns "/repo/release-notes.json"
+ * getReleaseNotesPath('/repo', { repo: 'owner/repo', releaseNotes: 'docs/releases.json' }); // Returns "/repo/docs/releases.json"
+ * ```
+ */
+export function getReleaseNotesPath(cwd: string, options: ValidOptions): string {
+  return path.resolve(cwd, typeof options.releaseNotes === 'string' ? options.releaseNotes : DEFAULT_RELEASE_NOTES_FILE)
+}
+
+/**
+ * Builds the release note of a changeset from the data that was resolved for its release line.
+ * Pass the commit URL of the release line to link the commit in the same way, null leaves the commit unlinked.
+ *
+ * @example
+ * ```ts
+ * createReleaseNote('brave-lions', 'minor', { summary: 'Add feature', pr: 12, commit: 'a1b2c3d...', authors: ['octocat'] }, options);
+ * // Returns { changeset: 'brave-lions', type: 'minor', summary: 'Add feature', pr: 12, commit: 'a1b2c3d...', authors: ['octocat'], urls: { pr: 'https://github.com/owner/repo/pull/12', ... } }
+ * ```
+ */
+export function createReleaseNote(id: string, type: ReleaseNote['type'], data: { summary: string, pr?: number, commit?: string, authors: string[] }, options: ValidOptions, commitUrl?: string | null): ReleaseNote {
+  return {
+    changeset: id,
+    type,
+    summary: data.summary,
+    pr: data.pr,
+    commit: data.commit,
+    authors: data.authors,
+    urls: {
+      pr: data.pr ? getPrUrl(options, data.pr) : undefined,
+      commit: commitUrl === undefined ? (data.commit ? getCommitUrl(options, data.commit) : undefined) : commitUrl ?? undefined,
+      authors: data.authors.map(author => getUserUrl(options, author)),
+    },
+  }
+}
+
+/**
+ * Reads the existing release notes. An invalid file is reported instead of being overwritten.
+ */
+function readReleaseNotes(filePath: string): ReleaseNotes {
+  if (!fs.existsSync(filePath))
+    return {}
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  }
+  catch (error) {
+    throw new Error(`Couldn't parse the release notes file "${filePath}": ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Records the release note of a changeset for every package it releases.
+ * Existing release notes in the file are kept, a changeset that is recorded again replaces its previous note.
+ * Packages without a known new version are skipped.
+ */
+export async function recordReleaseNote(cwd: string, changeset: NewChangesetWithCommit, data: Parameters<typeof createReleaseNote>[2], options: ValidOptions, commitUrl?: string | null): Promise<void> {
+  const versions = await getReleaseVersions(cwd)
+  const releases = changeset.releases.filter(release => release.type !== 'none' && versions.has(release.name))
+
+  if (releases.length === 0)
+    return
+
+  const filePath = getReleaseNotesPath(cwd, options)
+  const releaseNotes = readReleaseNotes(filePath)
+
+  for (const release of releases) {
+    const version = versions.get(release.name)!
+    const packageNotes = releaseNotes[release.name] ??= {}
+
+    packageNotes[version] = [
+      ...(packageNotes[version] ?? []).filter(note => note.changeset !== changeset.id),
+      createReleaseNote(changeset.id, release.type, data, options, commitUrl),
+    ]
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, `${JSON.stringify(releaseNotes, null, 2)}\n`)
+}
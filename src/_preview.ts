@@ -0,0 +1,85 @@
+import type { ModCompWithPackage, NewChangesetWithCommit, VersionType } from '@changesets/types'
+import type { DependencyConfig } from './_workspace'
+import { readChangesetConfig } from './_changesets'
+import { findChangesetCommit } from './_git'
+import { getRepository } from './_utils'
+import { getDependentReleases, getReleasePlan } from './_workspace'
+import { CWD } from './constants'
+import changelogFunctions from './index'
+
+const CHANGE_TYPES = ['major', 'minor', 'patch'] as const
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/**
+ * Tidies up the blank lines like a formatter would do after `changeset version`:
+ * Headings are followed by a blank line and multiple blank lines are collapsed into one.
+ * The lines of the summaries are indented, so they aren't affected.
+ */
+function tidyBlankLines(markdown: string): string {
+  return markdown.replace(/^(#+ .*)\n(?!\n)/gm, '$1\n\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Renders the changelog entry of a single release, exactly like `changeset version` would add it to the CHANGELOG.md of the package
+ *
+ * @example
+ * ```ts
+ * await renderChangelogEntry(release, releases, changesets, { repo: 'owner/repo' }, config);
+ * // Returns "## 1.1.0\n### Minor Changes\n\n\n- Add feature ([#12](https://github.com/owner/repo/pull/12))\n\n"
+ * ```
+ */
+export async function renderChangelogEntry(release: ModCompWithPackage, releases: ModCompWithPackage[], changesets: NewChangesetWithCommit[], changelogOptions: Record<string, any>, config: DependencyConfig): Promise<string> {
+  const changelogLines: Record<Exclude<VersionType, 'none'>, string[]> = { major: [], minor: [], patch: [] }
+
+  for (const changeset of changesets) {
+    const type = changeset.releases.find(changesetRelease => changesetRelease.name === release.name)?.type
+
+    if (type && type !== 'none')
+      changelogLines[type].push(await changelogFunctions.getReleaseLine(changeset, type, changelogOptions))
+  }
+
+  const dependentReleases = getDependentReleases(release.packageJson, releases, config)
+  const relevantChangesetIds = new Set(dependentReleases.flatMap(dependentRelease => dependentRelease.changesets))
+  const relevantChangesets = changesets.filter(changeset => relevantChangesetIds.has(changeset.id))
+
+  changelogLines.patch.push(await changelogFunctions.getDependencyReleaseLine(relevantChangesets, dependentReleases, changelogOptions))
+
+  const sections = CHANGE_TYPES.map((type) => {
+    const lines = changelogLines[type].filter(Boolean)
+    return lines.length > 0 ? `### ${capitalize(type)} Changes\n\n${lines.join('\n')}\n` : ''
+  })
+
+  return [`## ${release.newVersion}`, ...sections].filter(Boolean).join('\n')
+}
+
+/**
+ * Renders the changelog entries of all pending changesets, grouped by package.
+ * The release plan is assembled by Changesets, like in `changeset version`. The commits of the changesets are looked up in the local git history, so no network access is needed.
+ */
+export async function renderPreview(): Promise<string> {
+  const { changesets, releases, config } = await getReleasePlan(CWD)
+
+  if (changesets.length === 0)
+    return 'There are no pending changesets.'
+
+  const repository = getRepository()
+
+  const changesetsWithCommit: NewChangesetWithCommit[] = changesets.map(changeset => ({
+    ...changeset,
+    commit: findChangesetCommit(repository, changeset.id)?.id(),
+  }))
+
+  // A preview must not change any files
+  const changelogOptions = { ...readChangesetConfig(CWD).changelogOptions, releaseNotes: false }
+  const entries: string[] = []
+  const sortedReleases = releases.filter(release => release.type !== 'none').sort((a, b) => a.name.localeCompare(b.name))
+
+  for (const release of sortedReleases) {
+    entries.push(`# ${release.name}\n\n${await renderChangelogEntry(release, releases, changesetsWithCommit, changelogOptions, config)}`)
+  }
+
+  return tidyBlankLines(entries.join('\n\n'))
+}
@@ -0,0 +1,122 @@
+import type { Provider, ProviderConfig, ValidOptions } from './types'
+
+/**
+ * URL templates for every supported forge.
+ * Placeholders are written as `{name}` and filled in by `fillTemplate`.
+ * Gitea and Forgejo are self-hosted, so they don't have a default host.
+ */
+export const PROVIDERS: Record<Provider, ProviderConfig> = {
+  github: {
+    defaultHost: 'https://github.com',
+    templates: {
+      repo: '{host}/{repo}',
+      commit: '{host}/{repo}/commit/{sha}',
+      pr: '{host}/{repo}/pull/{number}',
+      issue: '{host}/{repo}/issues/{number}',
+      user: '{host}/{username}',
+      compare: '{host}/{repo}/compare/{from}...{to}',
+      tree: '{host}/{repo}/tree/{branch}',
+    },
+  },
+  gitlab: {
+    defaultHost: 'https://gitlab.com',
+    templates: {
+      repo: '{host}/{repo}',
+      commit: '{host}/{repo}/-/commit/{sha}',
+      pr: '{host}/{repo}/-/merge_requests/{number}',
+      issue: '{host}/{repo}/-/issues/{number}',
+      user: '{host}/{username}',
+      compare: '{host}/{repo}/-/compare/{from}...{to}',
+      tree: '{host}/{repo}/-/tree/{branch}',
+    },
+  },
+  bitbucket: {
+    defaultHost: 'https://bitbucket.org',
+    templates: {
+      repo: '{host}/{repo}',
+      commit: '{host}/{repo}/commits/{sha}',
+      pr: '{host}/{repo}/pull-requests/{number}',
+      issue: '{host}/{repo}/issues/{number}',
+      user: '{host}/{username}',
+      compare: '{host}/{repo}/branches/compare/{to}%0D{from}',
+      tree: '{host}/{repo}/src/{branch}',
+    },
+  },
+  gitea: {
+    templates: {
+      repo: '{host}/{repo}',
+      commit: '{host}/{repo}/commit/{sha}',
+      pr: '{host}/{repo}/pulls/{number}',
+      issue: '{host}/{repo}/issues/{number}',
+      user: '{host}/{username}',
+      compare: '{host}/{repo}/compare/{from}...{to}',
+      tree: '{host}/{repo}/src/branch/{branch}',
+    },
+  },
+  forgejo: {
+    templates: {
+      repo: '{host}/{repo}',
+      commit: '{host}/{repo}/commit/{sha}',
+      pr: '{host}/{repo}/pulls/{number}',
+      issue: '{host}/{repo}/issues/{number}',
+      user: '{host}/{username}',
+      compare: '{host}/{repo}/compare/{from}...{to}',
+      tree: '{host}/{repo}/src/branch/{branch}',
+    },
+  },
+}
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as Provider[]
+
+/**
+ * Returns the configured provider, defaulting to GitHub
+ */
+export function getProvider(options: ValidOptions): ProviderConfig {
+  return PROVIDERS[options.provider ?? 'github']
+}
+
+/**
+ * Normalizes a host so that it always has a protocol and never has a trailing slash
+ *
+ * @example
+ * ```ts
+ * normalizeHost('github.example.com'); // Returns "https://github.example.com"
+ * normalizeHost('http://gitea.local:3000/'); // Returns "http://gitea.local:3000"
+ * ```
+ */
+export function normalizeHost(host: string): string {
+  const withProtocol = /^https?:\/\//i.test(host) ? host : `https://${host}`
+
+  return withProtocol.replace(/\/+$/, '')
+}
+
+/**
+ * Returns the base URL of the forge, e.g. "https://github.com"
+ * Uses the "host" option if provided, otherwise the default host of the provider.
+ */
+export function getHostUrl(options: ValidOptions): string {
+  const host = options.host ?? getProvider(options).defaultHost
+
+  if (!host) {
+    throw new Error(`Please provide a host for the "${options.provider}" provider.`)
+  }
+
+  return normalizeHost(host)
+}
+
+/**
+ * Replaces all `{name}` placeholders in the template with the given values.
+ * Unknown placeholders are left untouched.
+ *
+ * @example
+ * ```ts
+ * fillTemplate('{host}/{repo}', { host: 'https://github.com', repo: 'owner/repo' });
+ * // Returns "https://github.com/owner/repo"
+ * ```
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = values[key]
+    return value === undefined ? placeholder : String(value)
+  })
+}
@@ -0,0 +1,159 @@
+import type { Repository } from '@napi-rs/simple-git'
+import type { Provider, RemoteInfo } from './types'
+import { getRepository } from './_utils'
+import { DEFAULT_REMOTE } from './constants'
+
+/**
+ * Regular expression to match scp-like SSH URLs, e.g. "git@github.com:org/repo.git"
+ */
+const SCP_LIKE_URL_REGEX = /^(?:[^@/\s]+@)?([^:/\s]+):(?!\/\/)\/?(\S+)$/
+
+/**
+ * Parses the URL of a git remote into the host of the forge and the repository path.
+ * Supports HTTPS, SSH and scp-like SSH URLs. The ".git" suffix is removed.
+ *
+ * @example
+ * ```ts
+ * parseRemoteUrl('git@github.com:org/repo.git');
+ * // Returns { host: "https://github.com", repo: "org/repo" }
+ *
+ * parseRemoteUrl('https://gitlab.example.com/group/subgroup/repo.git');
+ * // Returns { host: "https://gitlab.example.com", repo: "group/subgroup/repo" }
+ *
+ * parseRemoteUrl('/local/path/to/repo'); // Returns undefined
+ * ```
+ */
+export function parseRemoteUrl(url: string): RemoteInfo | undefined {
+  let host: string
+  let path: string
+
+  const scpLikeMatch = url.match(SCP_LIKE_URL_REGEX)
+
+  if (scpLikeMatch) {
+    host = `https://${scpLikeMatch[1]}`
+    path = scpLikeMatch[2]
+  }
+  else {
+    if (!URL.canParse(url))
+      return undefined
+
+    const parsedUrl = new URL(url)
+
+    if (parsedUrl.protocol === 'https:' || parsedUrl.protocol === 'http:') {
+      host = `${parsedUrl.protocol}//${parsedUrl.host}`
+    }
+    else if (parsedUrl.protocol === 'ssh:' || parsedUrl.protocol === 'git+ssh:' || parsedUrl.protocol === 'git:') {
+      // The SSH port has nothing to do with the port of the web interface
+      host = `https://${parsedUrl.hostname}`
+    }
+    else {
+      return undefined
+    }
+
+    path = parsedUrl.pathname
+  }
+
+  const repo = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '')
+
+  if (!repo.includes('/'))
+    return undefined
+
+  return { host, repo: repo as RemoteInfo['repo'] }
+}
+
+/**
+ * Guesses the provider from the host of a remote.
+ * Returns undefined for unknown hosts, e.g. self-hosted GitHub Enterprise instances.
+ *
+ * @example
+ * ```ts
+ * detectProvider('https://gitlab.com'); // Returns "gitlab"
+ * detectProvider('https://github.example.com'); // Returns undefined
+ * ```
+ */
+export function detectProvider(host: string): Provider | undefined {
+  const hostname = new URL(host).hostname
+
+  if (hostname === 'github.com')
+    return 'github'
+  if (hostname === 'gitlab.com' || hostname.startsWith('gitlab.'))
+    return 'gitlab'
+  if (hostname === 'bitbucket.org')
+    return 'bitbucket'
+  if (hostname === 'codeberg.org')
+    return 'forgejo'
+
+  return undefined
+}
+
+/**
+ * Reads and parses the URL of the given remote.
+ * Throws an error describing why the remote can't be used.
+ */
+export function getRemoteInfo(repository: Repository, remoteName: string): RemoteInfo {
+  const remote = repository.findRemote(remoteName)
+
+  if (!remote) {
+    throw new Error(`The git remote "${remoteName}" doesn't exist`)
+  }
+
+  const url = remote.url()
+
+  if (!url) {
+    throw new Error(`The git remote "${remoteName}" doesn't have a URL`)
+  }
+
+  const remoteInfo = parseRemoteUrl(url)
+
+  if (!remoteInfo) {
+    throw new Error(`The URL "${url}" of the git remote "${remoteName}" isn't a supported format`)
+  }
+
+  return remoteInfo
+}
+
+/**
+ * Fills in the "repo" option (and "host"/"provider" if they're not set) from the local git remote when "repo" is omitted.
+ * The "remote" option selects the git remote, it defaults to "origin".
+ * Returns the options unchanged when "repo" is already set.
+ *
+ * @example
+ * ```ts
+ * // With an "origin" remote of "git@gitlab.com:group/repo.git"
+ * resolveOptions({});
+ * // Returns { repo: "group/repo", host: "https://gitlab.com", provider: "gitlab" }
+ * ```
+ */
+export function resolveOptions(options: Record<string, any> | null): Record<string, any> | null {
+  if (options?.repo)
+    return options
+
+  const remoteName = typeof options?.remote === 'string' ? options.remote : DEFAULT_REMOTE
+
+  let remoteInfo: RemoteInfo
+
+  try {
+    remoteInfo = getRemoteInfo(getRepository(), remoteName)
+  }
+  catch (error) {
+    throw new Error(
+      `Please provide a repo for this changelog generator. It couldn't be detected from the git remote: ${(error as Error).message}.\n"example": ["changesets-changelog-github-local", { "repo": "org/repo" }]`,
+    )
+  }
+
+  const provider = options?.provider ?? detectProvider(remoteInfo.host)
+
+  // Self-hosted GitLab instances can't always be recognized by their host, but only GitLab supports nested groups
+  if (provider !== 'gitlab' && remoteInfo.repo.split('/').length > 2) {
+    throw new Error(
+      `The repo "${remoteInfo.repo}" was detected from the git remote "${remoteName}", but only the "gitlab" provider supports nested groups. If it's a GitLab instance, set the provider.\n"example": ["changesets-changelog-github-local", { "provider": "gitlab" }]`,
+    )
+  }
+
+  return {
+    ...options,
+    repo: remoteInfo.repo,
+    host: options?.host ?? remoteInfo.host,
+    ...(provider ? { provider } : {}),
+  }
+}
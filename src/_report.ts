@@ -0,0 +1,96 @@
+import type { UnresolvedChangeset } from './types'
+
+/**
+ * The unresolved changesets of the current run, keyed by the changeset id.
+ * Changesets with multiple releases are processed once per package, so every changeset is only listed once.
+ */
+const unresolvedChangesets = new Map<string, UnresolvedChangeset>()
+let isReportScheduled = false
+
+/**
+ * Formats the unresolved changesets as a list with one line per changeset
+ *
+ * @example
+ * ```ts
+ * formatUnresolvedReport([{ id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'The commit isn\'t part of the local git history' }]);
+ * // Returns "Couldn't resolve the commit of 1 changeset, so it's linked without a PR:\n- brave-lions (abc1234): The commit isn't part of the local git history"
+ * ```
+ */
+export function formatUnresolvedReport(changesets: UnresolvedChangeset[]): string {
+  const heading = changesets.length === 1
+    ? 'Couldn\'t resolve the commit of 1 changeset, so it\'s linked without a PR:'
+    : `Couldn't resolve the commits of ${changesets.length} changesets, so they're linked without PRs:`
+
+  const lines = changesets.map(({ id, commit, message }) => `- ${id}${commit ? ` (${commit.slice(0, 7)})` : ''}: ${message}`)
+
+  return [heading, ...lines].join('\n')
+}
+
+/**
+ * Records a changeset whose commit couldn't be resolved.
+ * Instead of warning for every changeset, all of them are listed in a single report when the process exits.
+ */
+export function reportUnresolvedChangeset(changeset: UnresolvedChangeset): void {
+  unresolvedChangesets.set(changeset.id, changeset)
+
+  if (!isReportScheduled) {
+    isReportScheduled = true
+    process.once('exit', () => {
+      isReportScheduled = false
+
+      if (unresolvedChangesets.size > 0)
+        console.warn(formatUnresolvedReport(getUnresolvedChangesets()))
+    })
+  }
+}
+
+/**
+ * Returns all changesets of the current run whose commit couldn't be resolved
+ */
+export function getUnresolvedChangesets(): UnresolvedChangeset[] {
+  return [...unresolvedChangesets.values()]
+}
+
+/**
+ * Returns the unresolved changeset with the given id and removes it from the report.
+ * Used by callers that surface the problem themselves instead of printing the report.
+ */
+export function takeUnresolvedChangeset(changesetId: string): UnresolvedChangeset | undefined {
+  const changeset = unresolvedChangesets.get(changesetId)
+  unresolvedChangesets.delete(changesetId)
+
+  return changeset
+}
+
+/**
+ * Forgets all unresolved changesets, e.g. between two runs in the same process
+ */
+export function clearUnresolvedChangesets(): void {
+  unresolvedChangesets.clear()
+}
+
+/**
+ * Throws a descriptive error if a release line can't be fully linked. Used by the "error" level of the "strict" option.
+ * The error names the changeset, so that it's easy to find and fix.
+ *
+ * @example
+ * ```ts
+ * assertChangesetResolved('brave-lions', { summary: 'Fix a bug', commit: 'abc1234567890' });
+ * // Throws "Couldn't find a PR number for changeset "brave-lions" (commit abc1234). ..."
+ * ```
+ */
+export function assertChangesetResolved(changesetId: string, { summary, commit, pr }: { summary: string, commit?: string, pr?: number }): void {
+  const hint = 'Fix the changeset or set the "strict" option to "warn".'
+
+  if (!commit) {
+    const reason = unresolvedChangesets.get(changesetId)?.message ?? 'The changeset has no commit'
+
+    throw new Error(`Couldn't resolve the commit of changeset "${changesetId}": ${reason}. ${hint}`)
+  }
+
+  if (pr === undefined)
+    throw new Error(`Couldn't find a PR number for changeset "${changesetId}" (commit ${commit.slice(0, 7)}). Add a "pr:" line to the changeset summary or set the "strict" option to "warn".`)
+
+  if (summary.trim() === '')
+    throw new Error(`The summary of changeset "${changesetId}" is empty. ${hint}`)
+}
@@ -0,0 +1,63 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { PackageRepoOptions, ValidOptions } from './types'
+import { globToRegExp } from './_internal'
+
+/**
+ * Returns the repository of a package from the "packageRepos" option. An exact package name takes precedence over the glob patterns.
+ *
+ * @example
+ * ```ts
+ * findPackageRepo('@scope/ui', { repo: 'owner/repo', packageRepos: { '@scope/*': 'owner/scope-mirror' } }); // Returns { repo: "owner/scope-mirror", commits: false }
+ * findPackageRepo('core', { repo: 'owner/repo', packageRepos: { '@scope/*': 'owner/scope-mirror' } }); // Returns undefined
+ * ```
+ */
+export function findPackageRepo(packageName: string, options: ValidOptions): Required<PackageRepoOptions> | undefined {
+  if (!options.packageRepos)
+    return undefined
+
+  const packageRepo = options.packageRepos[packageName]
+    ?? Object.entries(options.packageRepos).find(([pattern]) => globToRegExp(pattern).test(packageName))?.[1]
+
+  if (!packageRepo)
+    return undefined
+
+  return typeof packageRepo === 'string' ? { repo: packageRepo, commits: false } : { repo: packageRepo.repo, commits: packageRepo.commits ?? false }
+}
+
+/**
+ * Returns the options with the repository of the package as "repo". Used for the links that belong to the package itself, like the comparison of its release tags.
+ * PRs, issues and mentions live in the "repo", so their links must not use these options.
+ */
+export function getPackageOptions(packageName: string, options: ValidOptions): ValidOptions {
+  const packageRepo = findPackageRepo(packageName, options)
+
+  return packageRepo ? { ...options, repo: packageRepo.repo } : options
+}
+
+/**
+ * Returns the options for the commit link of a changeset.
+ * The commit is linked in the repository of the released packages if they all belong to the same repository that keeps the commits ("commits": true).
+ * Otherwise the "repo" is kept, which contains every commit.
+ *
+ * @example
+ * ```ts
+ * getCommitOptions({ ...changeset, releases: [{ name: '@scope/ui', type: 'minor' }] }, { repo: 'owner/repo', packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: true } } });
+ * // Returns { repo: 'owner/scope-mirror', packageRepos: { ... } }
+ * ```
+ */
+export function getCommitOptions(changeset: NewChangesetWithCommit, options: ValidOptions): ValidOptions {
+  if (!options.packageRepos)
+    return options
+
+  const repos = new Set(changeset.releases
+    .filter(release => release.type !== 'none')
+    .map((release) => {
+      const packageRepo = findPackageRepo(release.name, options)
+
+      return packageRepo?.commits ? packageRepo.repo : options.repo
+    }))
+
+  const [repo] = repos
+
+  return repos.size === 1 && repo !== options.repo ? { ...options, repo } : options
+}
@@ -0,0 +1,79 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { Commit, Repository } from '@napi-rs/simple-git'
+import type { PullRequestMetadata, SummaryOverrides, ValidOptions } from './types'
+import { findPrNumber, resolveChangesetCommit } from './_git'
+import { findPullRequestMetadata, getMetadataIndex } from './_metadata'
+import { reportUnresolvedChangeset } from './_report'
+import { getCommitAuthors, getSummaryFromCommitMessage, parseSummary } from './_utils'
+import { CWD } from './constants'
+
+export interface ResolvedChangeset {
+  /**
+   * The summary without any override lines. An empty summary is replaced with the commit message with the "summaryFallback" option
+   */
+  summary: string
+  overrides: SummaryOverrides
+  commit?: Commit
+  /**
+   * The SHA of the resolved commit, falling back to the "commit:" line and the commit Changesets found
+   */
+  commitSha?: string
+  commitMessage?: string
+  /**
+   * The PR number from the "pr:" line, the commit message (or the merge commit that brought it into the branch) or the "metadataFile"
+   */
+  pr?: number
+  /**
+   * The authors from the "author:" lines, the author of the PR in the "metadataFile" or the authors of the commit
+   */
+  authors: string[]
+  /**
+   * The metadata of the PR from the "metadataFile" option
+   */
+  metadata?: PullRequestMetadata
+}
+
+/**
+ * Resolves the commit, PR number and authors of a changeset from the local git history, enriched with the "metadataFile" if it exists.
+ * "pr:", "commit:" and "author:" lines in the summary take precedence. Commits that can't be resolved are reported.
+ */
+export function resolveChangeset(repository: Repository, changeset: NewChangesetWithCommit, options: ValidOptions): ResolvedChangeset {
+  const { summary, overrides } = parseSummary(changeset.summary, options)
+  const commit = resolveChangesetCommit(repository, changeset)
+  const commitSha = commit?.id() ?? overrides.commit ?? changeset.commit
+
+  let prNumber: number | undefined
+  let commitMessage: string | undefined
+  let commitAuthors: string[] = []
+
+  if (commit) {
+    try {
+      commitMessage = commit.message() ?? undefined
+
+      // The PR number from the summary takes precedence, so it's not necessary to look for it
+      if (overrides.pr === undefined) {
+        prNumber = findPrNumber(repository, commit, options)
+      }
+
+      // Authors from the summary take precedence over the ones from git
+      if (overrides.authors.length === 0) {
+        commitAuthors = getCommitAuthors(commit, options)
+      }
+    }
+    catch (error) {
+      reportUnresolvedChangeset({ id: changeset.id, commit: commitSha, reason: 'lookup-failed', message: `Looking up the commit failed: ${(error as Error).message}` })
+    }
+  }
+
+  const metadata = findPullRequestMetadata(getMetadataIndex(CWD, options), overrides.pr ?? prNumber, [commitSha, changeset.commit])
+
+  // The PR author from the metadata is the real username, the ones from git are derived from email addresses
+  const authors = overrides.authors.length > 0
+    ? overrides.authors
+    : metadata?.author ? [metadata.author] : commitAuthors
+
+  // Changesets that only contain override lines (or nothing at all) would be a bare link otherwise
+  const fallbackSummary = summary === '' && commitMessage && options.summaryFallback ? getSummaryFromCommitMessage(commitMessage, options) : summary
+
+  return { summary: fallbackSummary, overrides, commit, commitSha, commitMessage, pr: overrides.pr ?? prNumber ?? metadata?.number, authors, metadata }
+}
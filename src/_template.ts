@@ -0,0 +1,76 @@
+import type { ModCompWithPackage } from '@changesets/types'
+import type { DependencyLineData, DependencyLineTemplate, ReleaseLineData, ReleaseLineTemplate, ValidOptions } from './types'
+import { fillTemplate } from './_providers'
+import { getAuthorLinks, getCommitLink, getPrLink } from './_utils'
+
+/**
+ * Removes the leftovers of empty placeholders: empty parentheses and brackets, repeated and surrounding whitespace
+ */
+function cleanUpLine(line: string): string {
+  return line
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/ {2,}/g, ' ')
+    .trim()
+}
+
+/**
+ * Renders the first line of a changelog entry with the "template" option.
+ * String templates are cleaned up after the placeholders are filled in, the summary itself is never changed.
+ *
+ * @example
+ * ```ts
+ * renderReleaseLine('{pr} {summary} ({type})', { summary: 'Fix a bug', type: 'patch', pr: 123, authors: [], changeset }, options);
+ * // Returns "[#123](https://github.com/owner/repo/pull/123) Fix a bug (patch)"
+ * ```
+ */
+export function renderReleaseLine(template: ReleaseLineTemplate, data: Omit<ReleaseLineData, 'links'>, options: ValidOptions, commitUrl?: string | null): string {
+  const links: ReleaseLineData['links'] = {
+    pr: data.pr ? getPrLink(options, data.pr) : '',
+    commit: data.commit ? getCommitLink(options, data.commit, commitUrl) : '',
+    authors: getAuthorLinks(options, data.authors),
+  }
+
+  if (typeof template === 'function')
+    return template({ ...data, links })
+
+  const title = data.metadata?.title ?? ''
+  const line = cleanUpLine(fillTemplate(template, {
+    ...links,
+    thanks: links.authors ? `Thanks ${links.authors}!` : '',
+    type: data.type,
+    labels: data.metadata?.labels.join(', ') ?? '',
+    // A missing title is removed right away, so that its parentheses are cleaned up
+    title: title ? '{title}' : '',
+  }))
+
+  // The summary and the title are filled in last so that the clean-up doesn't touch them
+  return fillTemplate(line, { summary: data.summary, title })
+}
+
+/**
+ * Renders a single updated dependency with the "dependencyTemplate" option
+ *
+ * @example
+ * ```ts
+ * renderDependencyLine('{name} ({oldVersion} → {version})', dependency);
+ * // Returns "pkg (1.0.0 → 2.0.0)"
+ *
+ * renderDependencyLine('[{name}@{version}]({compareUrl})', dependency, 'https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0');
+ * // Returns "[pkg@2.0.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0)"
+ * ```
+ */
+export function renderDependencyLine(template: DependencyLineTemplate, dependency: ModCompWithPackage, compareUrl?: string): string {
+  const data: DependencyLineData = {
+    name: dependency.name,
+    version: dependency.newVersion,
+    oldVersion: dependency.oldVersion,
+    type: dependency.type,
+    dependency,
+    compareUrl,
+  }
+
+  if (typeof template === 'function')
+    return template(data)
+
+  return fillTemplate(template, { name: data.name, version: data.version, oldVersion: data.oldVersion, type: data.type, compareUrl: compareUrl ?? '' })
+}
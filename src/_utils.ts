@@ -1,22 +1,28 @@
-import type { ValidOptions } from './types'
+import type { Commit } from '@napi-rs/simple-git'
+import type { InternalChangesOptions, ParsedSummary, PrPatternScope, StrictLevel, SummaryFallback, SummaryOverrides, UnreachableCommitMode, ValidOptions } from './types'
 import { Repository } from '@napi-rs/simple-git'
+import { removeConventionalPrefix } from './_conventional'
+import { fillTemplate, getHostUrl, getProvider, normalizeHost, PROVIDER_NAMES } from './_providers'
 import { CWD } from './constants'
 
 /**
- * Constructs a GitHub repository URL from the options
+ * Constructs a repository URL from the options
  *
  * @example
  * ```ts
  * const options = { repo: 'owner/repo' };
  * const url = getRepoUrl(options); // Returns "https://github.com/owner/repo"
+ *
+ * const gitlabOptions = { repo: 'group/subgroup/repo', provider: 'gitlab' };
+ * const gitlabUrl = getRepoUrl(gitlabOptions); // Returns "https://gitlab.com/group/subgroup/repo"
  * ```
  */
 export function getRepoUrl(options: ValidOptions): string {
-  return `https://github.com/${options.repo}`
+  return fillTemplate(getProvider(options).templates.repo, { host: getHostUrl(options), repo: options.repo })
 }
 
 /**
- * Constructs a GitHub commit URL from the options and commit hash
+ * Constructs a commit URL from the options and commit hash
  *
  * @example
  * ```ts
@@ -27,11 +33,11 @@ export function getRepoUrl(options: ValidOptions): string {
  * ```
  */
 export function getCommitUrl(options: ValidOptions, commitHash: string): string {
-  return `${getRepoUrl(options)}/commit/${commitHash}`
+  return fillTemplate(getProvider(options).templates.commit, { host: getHostUrl(options), repo: options.repo, sha: commitHash })
 }
 
 /**
- * Constructs a GitHub pull request URL from the options and PR number
+ * Constructs a pull request (or merge request) URL from the options and PR number
  *
  * @example
  * ```ts
@@ -39,10 +45,90 @@ export function getCommitUrl(options: ValidOptions, commitHash: string): string
  * const prNumber = 123;
  * const url = getPrUrl(options, prNumber);
  * // Returns "https://github.com/owner/repo/pull/123"
+ *
+ * const gitlabUrl = getPrUrl({ repo: 'group/repo', provider: 'gitlab' }, prNumber);
+ * // Returns "https://gitlab.com/group/repo/-/merge_requests/123"
  * ```
  */
 export function getPrUrl(options: ValidOptions, prNumber: number): string {
-  return `${getRepoUrl(options)}/pull/${prNumber}`
+  return fillTemplate(getProvider(options).templates.pr, { host: getHostUrl(options), repo: options.repo, number: prNumber })
+}
+
+/**
+ * Constructs an issue URL from the options and issue number
+ *
+ * @example
+ * ```ts
+ * const options = { repo: 'owner/repo' };
+ * const url = getIssueUrl(options, 123);
+ * // Returns "https://github.com/owner/repo/issues/123"
+ * ```
+ */
+export function getIssueUrl(options: ValidOptions, issueNumber: number): string {
+  return fillTemplate(getProvider(options).templates.issue, { host: getHostUrl(options), repo: options.repo, number: issueNumber })
+}
+
+/**
+ * Constructs a profile URL for the given username
+ *
+ * @example
+ * ```ts
+ * const options = { repo: 'owner/repo' };
+ * const url = getUserUrl(options, 'octocat'); // Returns "https://github.com/octocat"
+ * ```
+ */
+export function getUserUrl(options: ValidOptions, username: string): string {
+  return fillTemplate(getProvider(options).templates.user, { host: getHostUrl(options), username })
+}
+
+/**
+ * The tag format of `changeset tag` in monorepos
+ */
+const DEFAULT_TAG_FORMAT = '{name}@{version}'
+
+/**
+ * Constructs a URL to the tree of a branch
+ *
+ * @example
+ * ```ts
+ * const options = { repo: 'owner/repo' };
+ * const url = getBranchUrl(options, 'feature/next'); // Returns "https://github.com/owner/repo/tree/feature/next"
+ * ```
+ */
+export function getBranchUrl(options: ValidOptions, branch: string): string {
+  return fillTemplate(getProvider(options).templates.tree, { host: getHostUrl(options), repo: options.repo, branch: encodeURI(branch) })
+}
+
+/**
+ * Constructs the name of the release tag of a package version with the "tagFormat" option
+ *
+ * @example
+ * ```ts
+ * getTagName({ repo: 'owner/repo' }, 'pkg', '1.0.0'); // Returns "pkg@1.0.0"
+ * getTagName({ repo: 'owner/repo', tagFormat: 'v{version}' }, 'pkg', '1.0.0'); // Returns "v1.0.0"
+ * ```
+ */
+export function getTagName(options: ValidOptions, name: string, version: string): string {
+  return fillTemplate(options.tagFormat ?? DEFAULT_TAG_FORMAT, { name, version })
+}
+
+/**
+ * Constructs a URL that compares two tags (or other refs)
+ *
+ * @example
+ * ```ts
+ * const options = { repo: 'owner/repo' };
+ * const url = getCompareUrl(options, '@scope/pkg@1.0.0', '@scope/pkg@1.1.0');
+ * // Returns "https://github.com/owner/repo/compare/@scope/pkg@1.0.0...@scope/pkg@1.1.0"
+ * ```
+ */
+export function getCompareUrl(options: ValidOptions, from: string, to: string): string {
+  return fillTemplate(getProvider(options).templates.compare, {
+    host: getHostUrl(options),
+    repo: options.repo,
+    from: encodeURI(from),
+    to: encodeURI(to),
+  })
 }
 
 /**
@@ -65,7 +151,28 @@ export function getShortSha(commitHash: string): string {
 const ORG_REPO_REGEX = /^[^/\s]+\/[^/\s]+$/
 
 /**
- * Validates that the options object contains a properly formatted repo property
+ * Regular expression to validate GitLab's 'group/subgroup/repo' format
+ * Matches a string with one or more forward slashes separating non-whitespace characters
+ */
+const NESTED_REPO_REGEX = /^[^/\s]+(?:\/[^/\s]+)+$/
+
+/**
+ * Regular expression to validate the prefix of issue keys, e.g. "PLAT" in "PLAT-1234"
+ */
+const ISSUE_KEY_PREFIX_REGEX = /^[A-Z]\w*$/i
+
+const PR_PATTERN_SCOPES: PrPatternScope[] = ['subject', 'message', 'trailers']
+
+const STRICT_LEVELS: StrictLevel[] = ['warn', 'error']
+
+const UNREACHABLE_COMMIT_MODES: UnreachableCommitMode[] = ['skip', 'branch', 'mark']
+
+const SUMMARY_FALLBACKS: SummaryFallback[] = ['subject', 'message']
+
+const INTERNAL_DISPLAY_MODES: Array<NonNullable<InternalChangesOptions['display']>> = ['hide', 'details']
+
+/**
+ * Validates that the options object contains a properly formatted repo property (and valid optional settings)
  * This function is a TypeScript type guard that asserts options is ValidOptions
  *
  * @example
@@ -79,6 +186,7 @@ const ORG_REPO_REGEX = /^[^/\s]+\/[^/\s]+$/
  * validate(null); // Error: Please provide a repo...
  * validate({}); // Error: Please provide a repo...
  * validate({ repo: 'invalid-format' }); // Error: Invalid repo format...
+ * validate({ repo: 'owner/repo', provider: 'gitea' }); // Error: Please provide a host...
  * ```
  */
 export function validate(options: Record<string, any> | null): asserts options is ValidOptions {
@@ -88,15 +196,281 @@ export function validate(options: Record<string, any> | null): asserts options i
     )
   }
 
-  if (typeof options.repo !== 'string' || !ORG_REPO_REGEX.test(options.repo)) {
+  if (options.provider !== undefined && !PROVIDER_NAMES.includes(options.provider)) {
+    throw new Error(
+      `Invalid provider. Please use one of: ${PROVIDER_NAMES.map(name => `"${name}"`).join(', ')}`,
+    )
+  }
+
+  if (options.provider === 'gitlab') {
+    if (typeof options.repo !== 'string' || !NESTED_REPO_REGEX.test(options.repo)) {
+      throw new Error(
+        'Invalid repo format. Please use the format "group/repo" or "group/subgroup/repo"',
+      )
+    }
+  }
+  else if (typeof options.repo !== 'string' || !ORG_REPO_REGEX.test(options.repo)) {
     throw new Error(
       'Invalid repo format. Please use the format "org/repo"',
     )
   }
+
+  if (options.packageRepos !== undefined) {
+    const repoRegex = options.provider === 'gitlab' ? NESTED_REPO_REGEX : ORG_REPO_REGEX
+
+    if (
+      typeof options.packageRepos !== 'object'
+      || options.packageRepos === null
+      || Array.isArray(options.packageRepos)
+      || Object.values(options.packageRepos).some((packageRepo: unknown) => {
+        if (typeof packageRepo === 'string')
+          return !repoRegex.test(packageRepo)
+
+        if (typeof packageRepo !== 'object' || packageRepo === null || Array.isArray(packageRepo))
+          return true
+
+        const repo = 'repo' in packageRepo ? packageRepo.repo : undefined
+        const commits = 'commits' in packageRepo ? packageRepo.commits : undefined
+
+        return typeof repo !== 'string' || !repoRegex.test(repo) || (commits !== undefined && typeof commits !== 'boolean')
+      })
+    ) {
+      throw new Error(
+        `Invalid packageRepos format. Please provide an object that maps package names or glob patterns to repositories, e.g. { "@scope/*": "${options.provider === 'gitlab' ? 'group/subgroup/repo' : 'org/repo'}" } or { "@scope/*": { "repo": "${options.provider === 'gitlab' ? 'group/subgroup/repo' : 'org/repo'}", "commits": true } }`,
+      )
+    }
+  }
+
+  if (options.host !== undefined && (typeof options.host !== 'string' || !URL.canParse(normalizeHost(options.host)))) {
+    throw new Error(
+      'Invalid host format. Please use a URL like "https://github.example.com"',
+    )
+  }
+
+  if (options.host === undefined && (options.provider === 'gitea' || options.provider === 'forgejo')) {
+    throw new Error(
+      `Please provide a host for the "${options.provider}" provider.\n"example": ["changesets-changelog-github-local", { "repo": "org/repo", "provider": "${options.provider}", "host": "https://codeberg.org" }]`,
+    )
+  }
+
+  if (options.remote !== undefined && (typeof options.remote !== 'string' || options.remote.trim() === '')) {
+    throw new Error(
+      'Invalid remote format. Please provide the name of a git remote, e.g. "origin"',
+    )
+  }
+
+  if (options.prPatterns !== undefined) {
+    if (!Array.isArray(options.prPatterns) || options.prPatterns.some(pattern => typeof pattern !== 'string')) {
+      throw new Error(
+        'Invalid prPatterns format. Please provide an array of regular expressions as strings, e.g. ["\\\\(PR-(?<pr>\\\\d+)\\\\)$"]',
+      )
+    }
+
+    for (const pattern of options.prPatterns as string[]) {
+      let regex: RegExp
+
+      try {
+        regex = new RegExp(pattern)
+      }
+      catch (error) {
+        throw new Error(
+          `Invalid prPatterns entry "${pattern}": ${(error as Error).message}`,
+        )
+      }
+
+      if (!regex.source.includes('(?<pr>')) {
+        throw new Error(
+          `Invalid prPatterns entry "${pattern}": The pattern needs a named capture group called "pr", e.g. "#(?<pr>\\\\d+)"`,
+        )
+      }
+    }
+  }
+
+  if (options.prPatternScope !== undefined && !PR_PATTERN_SCOPES.includes(options.prPatternScope)) {
+    throw new Error(
+      `Invalid prPatternScope. Please use one of: ${PR_PATTERN_SCOPES.map(scope => `"${scope}"`).join(', ')}`,
+    )
+  }
+
+  if (options.strict !== undefined && !STRICT_LEVELS.includes(options.strict)) {
+    throw new Error(
+      `Invalid strict level. Please use one of: ${STRICT_LEVELS.map(level => `"${level}"`).join(', ')}`,
+    )
+  }
+
+  for (const key of ['linkIssues', 'linkMentions', 'linkCommits', 'prefetch', 'compareLinks']) {
+    if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+      throw new Error(
+        `Invalid ${key} format. Please use true or false`,
+      )
+    }
+  }
+
+  if (options.metadataFile !== undefined && (typeof options.metadataFile !== 'string' || options.metadataFile.trim() === '')) {
+    throw new Error(
+      'Invalid metadataFile format. Please provide the path of a JSON or NDJSON file, e.g. "pr-metadata.json"',
+    )
+  }
+
+  if (options.releaseNotes !== undefined && typeof options.releaseNotes !== 'boolean' && (typeof options.releaseNotes !== 'string' || options.releaseNotes.trim() === '')) {
+    throw new Error(
+      'Invalid releaseNotes format. Please use true, false or the path of the JSON file, e.g. "release-notes.json"',
+    )
+  }
+
+  if (options.defaultBranch !== undefined && (typeof options.defaultBranch !== 'string' || options.defaultBranch.trim() === '')) {
+    throw new Error(
+      'Invalid defaultBranch format. Please provide the name of a branch, e.g. "main"',
+    )
+  }
+
+  if (options.unreachableCommits !== undefined && !UNREACHABLE_COMMIT_MODES.includes(options.unreachableCommits)) {
+    throw new Error(
+      `Invalid unreachableCommits. Please use one of: ${UNREACHABLE_COMMIT_MODES.map(mode => `"${mode}"`).join(', ')}`,
+    )
+  }
+
+  if (options.summaryFallback !== undefined && !SUMMARY_FALLBACKS.includes(options.summaryFallback)) {
+    throw new Error(
+      `Invalid summaryFallback. Please use one of: ${SUMMARY_FALLBACKS.map(fallback => `"${fallback}"`).join(', ')}`,
+    )
+  }
+
+  if (options.tagFormat !== undefined && (typeof options.tagFormat !== 'string' || !options.tagFormat.includes('{version}'))) {
+    throw new Error(
+      'Invalid tagFormat. Please provide a string with a "{version}" placeholder, e.g. "{name}@{version}" or "v{version}"',
+    )
+  }
+
+  if (options.issueTrackers !== undefined && (
+    typeof options.issueTrackers !== 'object'
+    || options.issueTrackers === null
+    || Array.isArray(options.issueTrackers)
+    || Object.entries(options.issueTrackers).some(([prefix, template]) => !ISSUE_KEY_PREFIX_REGEX.test(prefix) || typeof template !== 'string')
+  )) {
+    throw new Error(
+      'Invalid issueTrackers format. Please provide an object that maps issue key prefixes to URL templates, e.g. { "PLAT": "https://jira.example.com/browse/{key}" }',
+    )
+  }
+
+  for (const key of ['template', 'dependencyTemplate']) {
+    if (options[key] !== undefined && typeof options[key] !== 'string' && typeof options[key] !== 'function') {
+      throw new Error(
+        `Invalid ${key} format. Please provide a string with placeholders or a function`,
+      )
+    }
+  }
+
+  if (options.dependencies !== undefined) {
+    if (typeof options.dependencies !== 'object' || options.dependencies === null || Array.isArray(options.dependencies)) {
+      throw new Error(
+        'Invalid dependencies format. Please provide an object, e.g. { "showRange": true }',
+      )
+    }
+
+    for (const key of ['showRange', 'showType', 'linkPrs', 'groupByChangeset']) {
+      if (options.dependencies[key] !== undefined && typeof options.dependencies[key] !== 'boolean') {
+        throw new Error(
+          `Invalid dependencies.${key} format. Please use true or false`,
+        )
+      }
+    }
+
+    const { collapseThreshold } = options.dependencies
+
+    if (collapseThreshold !== undefined && (!Number.isInteger(collapseThreshold) || collapseThreshold < 0)) {
+      throw new Error(
+        'Invalid dependencies.collapseThreshold format. Please use a non-negative integer',
+      )
+    }
+  }
+
+  if (options.conventionalCommits !== undefined && typeof options.conventionalCommits !== 'boolean') {
+    const { conventionalCommits } = options
+
+    if (typeof conventionalCommits !== 'object' || conventionalCommits === null || Array.isArray(conventionalCommits)) {
+      throw new Error(
+        'Invalid conventionalCommits format. Please use true, false or an object, e.g. { "style": "emoji" }',
+      )
+    }
+
+    if (conventionalCommits.style !== undefined && !['bold', 'emoji'].includes(conventionalCommits.style)) {
+      throw new Error(
+        'Invalid conventionalCommits.style. Please use one of: "bold", "emoji"',
+      )
+    }
+
+    if (conventionalCommits.labels !== undefined && (
+      typeof conventionalCommits.labels !== 'object'
+      || conventionalCommits.labels === null
+      || Array.isArray(conventionalCommits.labels)
+      || Object.values(conventionalCommits.labels).some(label => typeof label !== 'string')
+    )) {
+      throw new Error(
+        'Invalid conventionalCommits.labels format. Please provide an object that maps commit types to labels, e.g. { "feat": "New" }',
+      )
+    }
+
+    for (const key of ['scopeTemplate', 'breakingLabel']) {
+      if (conventionalCommits[key] !== undefined && typeof conventionalCommits[key] !== 'string') {
+        throw new Error(
+          `Invalid conventionalCommits.${key} format. Please provide a string`,
+        )
+      }
+    }
+  }
+
+  if (options.internalChanges !== undefined) {
+    const { internalChanges } = options
+
+    if (typeof internalChanges !== 'object' || internalChanges === null || Array.isArray(internalChanges)) {
+      throw new Error(
+        'Invalid internalChanges format. Please provide an object, e.g. { "scopes": ["ci"], "paths": ["tooling/**"] }',
+      )
+    }
+
+    if (internalChanges.marker !== undefined && typeof internalChanges.marker !== 'boolean') {
+      throw new Error(
+        'Invalid internalChanges.marker format. Please use true or false',
+      )
+    }
+
+    for (const key of ['scopes', 'paths']) {
+      if (internalChanges[key] !== undefined && (!Array.isArray(internalChanges[key]) || internalChanges[key].some((entry: unknown) => typeof entry !== 'string' || entry.trim() === ''))) {
+        throw new Error(
+          `Invalid internalChanges.${key} format. Please provide an array of strings`,
+        )
+      }
+    }
+
+    if (internalChanges.display !== undefined && !INTERNAL_DISPLAY_MODES.includes(internalChanges.display)) {
+      throw new Error(
+        `Invalid internalChanges.display. Please use one of: ${INTERNAL_DISPLAY_MODES.map(mode => `"${mode}"`).join(', ')}`,
+      )
+    }
+  }
+
+  if (options.usernames !== undefined && (
+    typeof options.usernames !== 'object'
+    || options.usernames === null
+    || Array.isArray(options.usernames)
+    || Object.values(options.usernames).some(username => typeof username !== 'string')
+  )) {
+    throw new Error(
+      'Invalid usernames format. Please provide an object that maps email addresses to GitHub usernames, e.g. { "jane@example.com": "janedoe" }',
+    )
+  }
 }
 
 /**
- * Discovers and initializes a git repository from the current working directory
+ * The discovered repositories, keyed by the directory they were discovered from.
+ * Changesets calls the changelog functions once per changeset, so the repository is only discovered once per process.
+ */
+const repositoryCache = new Map<string, Repository>()
+
+/**
+ * Discovers and initializes a git repository from the current working directory.
+ * The repository is cached, so the shallow clone warning is only logged once.
  *
  * @example
  * ```ts
@@ -109,6 +483,11 @@ export function validate(options: Record<string, any> | null): asserts options i
  * ```
  */
 export function getRepository(): Repository {
+  const cachedRepository = repositoryCache.get(CWD)
+
+  if (cachedRepository)
+    return cachedRepository
+
   try {
     const repository = Repository.discover(CWD)
 
@@ -121,6 +500,8 @@ export function getRepository(): Repository {
       }
     }
 
+    repositoryCache.set(CWD, repository)
+
     return repository
   }
   catch (error) {
@@ -128,20 +509,160 @@ export function getRepository(): Repository {
   }
 }
 
+/**
+ * Clears the cached repositories. All commit lookups are cached per repository, so they're cleared, too.
+ */
+export function clearRepositoryCache(): void {
+  repositoryCache.clear()
+}
+
+/**
+ * Parses the changeset.summary string and extracts any "pr:", "commit:" or "author:" lines.
+ * The "internal: true" line is only extracted if the "internalChanges" option uses the marker, otherwise it stays part of the summary.
+ * The returned summary no longer contains these lines and uses LF line endings, the extracted values are returned as overrides.
+ * Multiple "author:" lines are supported.
+ *
+ * @example
+ * ```ts
+ * const { summary, overrides } = parseSummary('pr: #123\ncommit: abc123\nauthor: @user\nAdd feature');
+ * // summary: "Add feature"
+ * // overrides: { pr: 123, commit: "abc123", authors: ["user"] }
+ * ```
+ */
+export function parseSummary(summary: string, options: Pick<ValidOptions, 'internalChanges'> = {}): ParsedSummary {
+  const overrides: SummaryOverrides = { authors: [] }
+  const useInternalMarker = options.internalChanges !== undefined && options.internalChanges.marker !== false
+
+  // Summaries written on Windows use CRLF line endings
+  const cleanedSummary = summary
+    .replace(/\r\n?/g, '\n')
+    .replace(/^\s*(?:pr|pull|pull\s+request):\s*#?(\d+)/im, (_, pr: string) => {
+      overrides.pr = Number.parseInt(pr, 10)
+      return ''
+    })
+    .replace(/^\s*commit:\s*(\S+)/im, (_, commit: string) => {
+      overrides.commit = commit
+      return ''
+    })
+    .replace(/^\s*(?:author|user):\s*@?(\S+)/gim, (_, author: string) => {
+      overrides.authors.push(author)
+      return ''
+    })
+    .replace(/^\s*internal:\s*true\s*$/im, (line) => {
+      if (!useInternalMarker)
+        return line
+
+      overrides.internal = true
+      return ''
+    })
+    .trim()
+
+  return { summary: cleanedSummary, overrides }
+}
+
 /**
  * This function cleans the changeset.summary string by removing any "pr:", "commit:", or "author:" lines.
  */
 export function cleanSummary(summary: string) {
-  return summary
-    .replace(/^\s*(?:pr|pull|pull\s+request):\s*#?(\d+)/im, '')
-    .replace(/^\s*commit:\s*(\S+)/im, '')
-    .replace(/^\s*(?:author|user):\s*@?(\S+)/gim, '')
-    .trim()
+  return parseSummary(summary).summary
+}
+
+/**
+ * Regular expression to match a single git trailer line, e.g. "Co-authored-by: Jane <jane@example.com>"
+ */
+const TRAILER_LINE_REGEX = /^[\w-]+:\s/
+
+/**
+ * Returns the part of the commit message that matches the scope.
+ * The trailers are the last paragraph of the commit message if it only consists of "Key: value" lines.
+ *
+ * @example
+ * ```ts
+ * const msg = "Add feature\n\nSome description\n\nPR: 123\nReviewed-by: Jane";
+ * getCommitMessageScope(msg, 'subject'); // Returns "Add feature"
+ * getCommitMessageScope(msg, 'trailers'); // Returns "PR: 123\nReviewed-by: Jane"
+ * ```
+ */
+export function getCommitMessageScope(commitMessage: string, scope: PrPatternScope): string {
+  if (scope === 'subject')
+    return commitMessage.split('\n')[0].trim()
+
+  if (scope === 'trailers') {
+    const paragraphs = commitMessage.trim().split(/\n\s*\n/)
+
+    if (paragraphs.length < 2)
+      return ''
+
+    const lastParagraph = paragraphs[paragraphs.length - 1]
+    return lastParagraph.split('\n').every(line => TRAILER_LINE_REGEX.test(line.trim())) ? lastParagraph : ''
+  }
+
+  return commitMessage
+}
+
+/**
+ * Regular expression to match the PR number at the end of a commit subject, e.g. "(#123)"
+ */
+const PR_SUFFIX_REGEX = /\(#\d+\)$|#\d+$/
+
+/**
+ * Turns a commit message into a changeset summary for the "summaryFallback" option.
+ * The PR number (also the one of the "prPatterns") and the Conventional Commit prefix are removed from the subject.
+ * With "message", the body is added as the detail lines, without the trailers.
+ *
+ * @example
+ * ```ts
+ * getSummaryFromCommitMessage('fix(api): Handle errors (#12)\n\nRetry failed requests\n\nCo-authored-by: Jane <jane@example.com>', { repo: 'owner/repo', summaryFallback: 'message' });
+ * // Returns "Handle errors\n\nRetry failed requests"
+ * ```
+ */
+export function getSummaryFromCommitMessage(commitMessage: string, options: ValidOptions): string {
+  const [subject, ...bodyLines] = commitMessage.trim().split('\n')
+  let title = subject.trim()
+
+  for (const pattern of options.prPatterns ?? []) {
+    const match = title.match(new RegExp(pattern))
+
+    if (match?.groups?.pr)
+      title = title.replace(match[0], '').trim()
+  }
+
+  title = removeConventionalPrefix(title.replace(PR_SUFFIX_REGEX, '').trim(), options)
+
+  if (options.summaryFallback !== 'message')
+    return title
+
+  const body = bodyLines.join('\n').trim()
+  const trailers = getCommitMessageScope(commitMessage, 'trailers')
+  const details = trailers ? body.slice(0, -trailers.length).trim() : body
+
+  return [title, details].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Extracts the PR number with the custom "prPatterns" option.
+ * The first pattern with a numeric "pr" capture group wins.
+ */
+function getCustomPrNumber(commitMessage: string, options: Pick<ValidOptions, 'prPatterns' | 'prPatternScope'>): number | undefined {
+  if (!options.prPatterns?.length)
+    return undefined
+
+  const text = getCommitMessageScope(commitMessage, options.prPatternScope ?? 'subject')
+
+  for (const pattern of options.prPatterns) {
+    const prNumber = text.match(new RegExp(pattern, 'm'))?.groups?.pr
+
+    if (prNumber && /^\d+$/.test(prNumber))
+      return Number.parseInt(prNumber, 10)
+  }
+
+  return undefined
 }
 
 /**
  * Extracts the PR number from a commit message.
- * Handles different formats of squash merge commit messages.
+ * Handles different formats of squash merge commit messages, GitHub's merge commit subject and GitLab's merge request trailer.
+ * Custom patterns from the "prPatterns" option are tried first.
  *
  * @example
  * ```ts
@@ -160,40 +681,172 @@ export function cleanSummary(summary: string) {
  * // GitHub's squash merge format
  * const msg4 = "Add feature (#123)\n\nThis is a detailed description";
  * getPrNumber(msg4); // Returns 123
+ *
+ * // GitHub's merge commit format
+ * const msg5 = "Merge pull request #123 from org/branch\n\nAdd feature";
+ * getPrNumber(msg5); // Returns 123
+ *
+ * // GitLab's merge commit format
+ * const msg6 = "Merge branch 'feature' into 'main'\n\nAdd feature\n\nSee merge request group/project!123";
+ * getPrNumber(msg6); // Returns 123
+ *
+ * // Custom pattern
+ * const msg7 = "chore(release): bump (PR-123)";
+ * getPrNumber(msg7, { prPatterns: ['\\(PR-(?<pr>\\d+)\\)$'] }); // Returns 123
  * ```
  */
-export function getPrNumber(commitMessage: string | undefined): number | undefined {
+export function getPrNumber(commitMessage: string | undefined, options: Pick<ValidOptions, 'prPatterns' | 'prPatternScope'> = {}): number | undefined {
   if (!commitMessage)
     return undefined
 
+  const customPrNumber = getCustomPrNumber(commitMessage, options)
+
+  if (customPrNumber !== undefined)
+    return customPrNumber
+
   const firstLine = commitMessage.split('\n')[0].trim()
   /**
    * Match patterns like (#123) or #123 at the end of the first line.
    * This covers most common squash merge formats.
+   * Otherwise match GitHub's "Merge pull request #123 from org/branch" subject or GitLab's "See merge request group/project!123" line.
    */
   const match = firstLine.match(/\(#(\d+)\)$|#(\d+)\s*$/)
+    ?? firstLine.match(/^Merge pull request #(\d+) from /)
+    ?? commitMessage.match(/^\s*See merge request \S*!(\d+)\s*$/m)
 
   if (!match)
     return undefined
 
-  // Return the matched group, handling both capture patterns
+  // Return the matched group, handling all capture patterns
   const prNumber = match[1] || match[2]
   return prNumber ? Number.parseInt(prNumber, 10) : undefined
 }
 
+/**
+ * Regular expression to match GitHub's noreply email addresses
+ * Matches both "login@users.noreply.github.com" and "12345+login@users.noreply.github.com"
+ */
+const GITHUB_NOREPLY_EMAIL_REGEX = /^(?:\d+\+)?([^@\s]+)@users\.noreply\.github\.com$/i
+
+/**
+ * Regular expression to match "Co-authored-by:" trailers in a commit message
+ */
+const CO_AUTHORED_BY_REGEX = /^\s*co-authored-by:[^<\n]*<([^>\s]+)>/gim
+
+/**
+ * Resolves the GitHub username for an email address.
+ * The "usernames" option takes precedence over GitHub's noreply email addresses.
+ *
+ * @example
+ * ```ts
+ * getUsernameFromEmail('12345+octocat@users.noreply.github.com', options); // Returns "octocat"
+ * getUsernameFromEmail('jane@example.com', { repo: 'owner/repo', usernames: { 'jane@example.com': 'janedoe' } }); // Returns "janedoe"
+ * getUsernameFromEmail('unknown@example.com', options); // Returns undefined
+ * ```
+ */
+export function getUsernameFromEmail(email: string | null | undefined, options: ValidOptions): string | undefined {
+  if (!email)
+    return undefined
+
+  const normalizedEmail = email.trim().toLowerCase()
+
+  if (options.usernames) {
+    const entry = Object.entries(options.usernames).find(([key]) => key.toLowerCase() === normalizedEmail)
+
+    if (entry)
+      return entry[1]
+  }
+
+  return normalizedEmail.match(GITHUB_NOREPLY_EMAIL_REGEX)?.[1]
+}
+
+/**
+ * Extracts the email addresses of all "Co-authored-by:" trailers in a commit message.
+ *
+ * @example
+ * ```ts
+ * const msg = "Add feature (#123)\n\nCo-authored-by: Jane Doe <jane@example.com>";
+ * getCoAuthorEmails(msg); // Returns ["jane@example.com"]
+ * ```
+ */
+export function getCoAuthorEmails(commitMessage: string | null | undefined): string[] {
+  if (!commitMessage)
+    return []
+
+  return Array.from(commitMessage.matchAll(CO_AUTHORED_BY_REGEX), match => match[1])
+}
+
+/**
+ * Collects the GitHub usernames of everyone who worked on a commit.
+ * The author is used first (with the committer as a fallback), followed by all co-authors.
+ * Email addresses that can't be resolved to a username are skipped.
+ */
+export function getCommitAuthors(commit: Commit, options: ValidOptions): string[] {
+  const authors = new Set<string>()
+
+  const author = getUsernameFromEmail(commit.author().email(), options)
+    ?? getUsernameFromEmail(commit.committer().email(), options)
+
+  if (author)
+    authors.add(author)
+
+  for (const email of getCoAuthorEmails(commit.message())) {
+    const coAuthor = getUsernameFromEmail(email, options)
+
+    if (coAuthor)
+      authors.add(coAuthor)
+  }
+
+  return [...authors]
+}
+
+/**
+ * Returns the Markdown link to a pull request, e.g. "[#123](https://github.com/owner/repo/pull/123)"
+ */
+export function getPrLink(options: ValidOptions, prNumber: number): string {
+  return `[#${prNumber}](${getPrUrl(options, prNumber)})`
+}
+
+/**
+ * Returns the Markdown link to a commit with its short SHA, e.g. "[`1234567`](https://github.com/owner/repo/commit/1234567890abcdef)"
+ * A different URL can be linked instead of the commit. With `null`, only the short SHA is returned.
+ */
+export function getCommitLink(options: ValidOptions, commitSha: string, commitUrl: string | null = getCommitUrl(options, commitSha)): string {
+  return commitUrl === null ? `\`${getShortSha(commitSha)}\`` : `[\`${getShortSha(commitSha)}\`](${commitUrl})`
+}
+
+/**
+ * Returns the comma-separated Markdown links to the profiles of the authors, e.g. "[@alice](https://github.com/alice), [@bob](https://github.com/bob)"
+ */
+export function getAuthorLinks(options: ValidOptions, authors: string[]): string {
+  return authors.map(author => `[@${author}](${getUserUrl(options, author)})`).join(', ')
+}
+
 /**
  * Get the suffix for the first line of the changelog entry.
  * This includes the PR number if available, otherwise the short commit SHA.
- * If neither is available, returns an empty string.
+ * Values from the summary overrides take precedence over the ones derived from git.
+ * If authors are known, a "Thanks" note is appended.
+ * If nothing is available, returns an empty string.
+ * The commit URL is passed on to `getCommitLink`.
  */
-export function getSuffix(pr: number | undefined, commitSha: string | undefined, options: ValidOptions): string {
-  if (pr) {
-    return ` ([#${pr}](${getPrUrl(options, pr)}))`
+export function getSuffix(pr: number | undefined, commitSha: string | undefined, options: ValidOptions, overrides?: Partial<SummaryOverrides>, commitUrl?: string | null): string {
+  const prNumber = overrides?.pr ?? pr
+  const sha = overrides?.commit ?? commitSha
+  const authors = overrides?.authors ?? []
+
+  let suffix = ''
+
+  if (prNumber) {
+    suffix = ` (${getPrLink(options, prNumber)})`
   }
-  else if (commitSha) {
-    return ` ([\`${getShortSha(commitSha)}\`](${getCommitUrl(options, commitSha)}))`
+  else if (sha) {
+    suffix = ` (${getCommitLink(options, sha, commitUrl)})`
   }
-  else {
-    return ''
+
+  if (authors.length > 0) {
+    suffix += ` Thanks ${getAuthorLinks(options, authors)}!`
   }
+
+  return suffix
 }
@@ -0,0 +1,89 @@
+import type { Config, ModCompWithPackage, NewChangeset, PackageJSON, VersionType } from '@changesets/types'
+import path from 'node:path'
+import { read as readConfig } from '@changesets/config'
+import getChangesetsReleasePlan from '@changesets/get-release-plan'
+import { getPackagesSync } from '@manypkg/get-packages'
+import semver from 'semver'
+
+export interface WorkspacePackage {
+  /**
+   * The directory of the package, relative to the root of the workspace ("." for the root package)
+   */
+  dir: string
+  packageJson: PackageJSON
+}
+
+export interface WorkspaceReleasePlan {
+  changesets: NewChangeset[]
+  /**
+   * The releases of the plan. Like in `changeset version`, they include the packages of the "none" type
+   */
+  releases: ModCompWithPackage[]
+  /**
+   * The config from ".changeset/config.json" that the plan was assembled with
+   */
+  config: Config
+}
+
+export type DependencyConfig = Pick<Config, 'updateInternalDependencies' | '___experimentalUnsafeOptions_WILL_CHANGE_IN_PATCH'>
+
+const BUMP_TYPES: VersionType[] = ['none', 'patch', 'minor', 'major']
+
+/**
+ * Finds all packages of the workspace like Changesets does, so that the package lists match.
+ * Without a workspace, the root package is the only package.
+ */
+export function getWorkspacePackages(cwd: string): WorkspacePackage[] {
+  return getPackagesSync(cwd).packages.map(({ dir, packageJson }) => ({
+    dir: path.relative(cwd, dir).split(path.sep).join('/') || '.',
+    packageJson,
+  }))
+}
+
+/**
+ * Returns the releases of the internal dependencies that `changeset version` lists as updated in the changelog of a package.
+ * Like in Changesets, only "dependencies" and "peerDependencies" with a valid or "workspace:" range count. A dependency whose new version leaves the range is always listed.
+ * Otherwise the "updateInternalDependencies" option decides, and peer dependencies are listed unless "onlyUpdatePeerDependentsWhenOutOfRange" is enabled.
+ */
+export function getDependentReleases(packageJson: PackageJSON, releases: ModCompWithPackage[], config: DependencyConfig): ModCompWithPackage[] {
+  return releases.filter((release) => {
+    const dependencyRange = packageJson.dependencies?.[release.name]
+    const versionRange = dependencyRange || packageJson.peerDependencies?.[release.name]
+
+    if (!versionRange || (!versionRange.startsWith('workspace:') && semver.validRange(versionRange) === null))
+      return false
+
+    if (!semver.satisfies(release.newVersion, versionRange))
+      return true
+
+    if (!dependencyRange)
+      return !config.___experimentalUnsafeOptions_WILL_CHANGE_IN_PATCH.onlyUpdatePeerDependentsWhenOutOfRange
+
+    return BUMP_TYPES.indexOf(release.type) >= BUMP_TYPES.indexOf(config.updateInternalDependencies)
+  })
+}
+
+/**
+ * Assembles the release plan of the pending changesets with Changesets itself, so that it matches the one of `changeset version`.
+ * Dependents, fixed and linked groups, ignored packages and the pre mode are taken into account.
+ * Like in `changeset version`, the package.json and the directory of every released package are added. The config is returned, too.
+ */
+export async function getReleasePlan(cwd: string): Promise<WorkspaceReleasePlan> {
+  const config = await readConfig(cwd, getPackagesSync(cwd))
+  const releasePlan = await getChangesetsReleasePlan(cwd, undefined, config)
+  const packages = getWorkspacePackages(cwd)
+
+  return {
+    changesets: releasePlan.changesets,
+    releases: releasePlan.releases.map((release) => {
+      const workspacePackage = packages.find(candidate => candidate.packageJson.name === release.name)
+
+      if (!workspacePackage) {
+        throw new Error(`The package "${release.name}" is released, but it isn't part of the workspace.`)
+      }
+
+      return { ...release, packageJson: workspacePackage.packageJson, dir: workspacePackage.dir }
+    }),
+    config,
+  }
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { run } from './_cli'
+
+run(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode
+  },
+  (error: Error) => {
+    console.error(error.message)
+    process.exitCode = 1
+  },
+)
@@ -1 +1,2 @@
 export const CWD = process.cwd()
+export const DEFAULT_REMOTE = 'origin'
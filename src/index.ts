@@ -4,77 +4,109 @@
  */
 
 import type { ChangelogFunctions } from '@changesets/types'
-import { cleanSummary, getCommitUrl, getPrNumber, getRepository, getShortSha, getSuffix, validate } from './_utils'
+import { autolinkSummary } from './_autolink'
+import { formatConventionalSummary } from './_conventional'
+import { formatDependencyBlock, formatDependencyBlocksByChangeset, getChangesetLink, getDependencyItem } from './_dependencies'
+import { getCommitUrlOverride } from './_git'
+import { formatInternalReleaseLine, isInternalChange } from './_internal'
+import { formatSummaryBody, formatSummaryTitle } from './_markdown'
+import { recordReleaseNote } from './_notes'
+import { resolveOptions } from './_remote'
+import { assertChangesetResolved } from './_report'
+import { getCommitOptions } from './_repos'
+import { resolveChangeset } from './_resolve'
+import { renderReleaseLine } from './_template'
+import { getCommitUrl, getRepository, getSuffix, validate } from './_utils'
+import { CWD } from './constants'
+
+const PRERELEASE_LABEL = '**Pre-release:**'
 
 const changelogFunctions: ChangelogFunctions = {
-  getDependencyReleaseLine: async (changesets, dependenciesUpdated, options) => {
+  getDependencyReleaseLine: async (changesets, dependenciesUpdated, changelogOpts) => {
+    const options = resolveOptions(changelogOpts)
     validate(options)
 
     if (dependenciesUpdated.length === 0)
       return ''
 
     /**
-     * Link out all the commit SHAs where dependencies were updated
+     * Looking up PR numbers, release tags and the default branch are the only parts that need the git repository
      */
-    const changesetLink = `- Updated dependencies${changesets.length > 0
-      ? ` [${
-        changesets.map((c) => {
-          if (c.commit) {
-            return `[\`${getShortSha(c.commit)}\`](${getCommitUrl(options, c.commit)})`
-          }
-
-          return null
-        }).filter(Boolean).join(', ')
-      }]:`
-      : ':'}`
+    const repository = options.dependencies?.linkPrs || options.compareLinks || options.defaultBranch ? getRepository() : undefined
+
+    if (options.dependencies?.groupByChangeset) {
+      return formatDependencyBlocksByChangeset(changesets, dependenciesUpdated, options, repository)
+    }
+
+    /**
+     * Link out all the commit SHAs (or PRs) where dependencies were updated
+     */
+    const links = changesets
+      .map(c => getChangesetLink(c, options, repository))
+      .filter((link): link is string => Boolean(link))
 
     /**
      * List out all the updated dependencies
      */
-    const updatedDependenciesList = dependenciesUpdated.map(d => `  - ${d.name}@${d.newVersion}`)
+    const updatedDependenciesList = dependenciesUpdated.map(d => getDependencyItem(d, options, repository))
 
-    return [changesetLink, ...updatedDependenciesList].join('\n')
+    return formatDependencyBlock(links, updatedDependenciesList, options)
   },
-  getReleaseLine: async (changeset, type, options) => {
+  getReleaseLine: async (changeset, type, changelogOpts) => {
+    const options = resolveOptions(changelogOpts)
     validate(options)
 
     /**
      * This function contains the main functionality of this changelog generator.
      * 1) Discover the local git repository (the repository where the changelog generator is being run)
-     * 2) `changeset.summary` is cleaned up and will be used as the text body of the changelog entry
-     * 3) The commit SHA is used as a fallback if we can't get the PR number from the commit message
-     * 4) Put PR number (or its commit SHA fallback) in parentheses at the end of the first line of the changelog entry
-     * 5) Add the rest of the changelog entry in the next lines
-     * 6) Return the generated lines
+     * 2) `changeset.summary` is cleaned up and will be used as the text body of the changelog entry. Any "pr:", "commit:" or "author:" lines are used as overrides, Conventional Commit prefixes can be replaced with labels and issue references are turned into links
+     * 3) The commit of the changeset is resolved. In shallow clones the commit that added the changeset file is used if the commit itself isn't available
+     * 4) The commit SHA is used as a fallback if we can't get the PR number from the commit message (or the merge commit that brought it into the branch) or the "metadataFile". With the "error" level of the "strict" option, an error is thrown instead
+     * 5) Put PR number (or its commit SHA fallback) in parentheses at the end of the first line of the changelog entry, followed by a "Thanks" note for the authors of the commit. The "template" option can change the shape of this line
+     * 6) Commits that aren't reachable from the "defaultBranch" aren't linked, link the current branch or are labeled as a pre-release, depending on the "unreachableCommits" option
+     * 7) Add the rest of the changelog entry in the next lines. Code blocks are kept intact and headings are shifted below the headings of the changelog
+     * 8) With the "releaseNotes" option, record the resolved data in a JSON file
+     * 9) Return the generated lines. Commits are linked in the repository of the released packages if the "packageRepos" option allows it. Internal changes (see the "internalChanges" option) are left out or collapsed
      */
 
     const repository = getRepository()
-    const summary = cleanSummary(changeset.summary)
-
-    let commitMsg: string | undefined
-
-    if (changeset.commit) {
-      try {
-        const commit = repository.findCommit(changeset.commit)
-
-        if (commit) {
-          const commitMessage = commit.message()
-          if (commitMessage) {
-            // Only get the first line of the commit message
-            commitMsg = commitMessage.split('\n')[0].trim()
-          }
-        }
-      }
-      catch (error) {
-        console.warn(`Failed to get commit message for ${changeset.commit}:`, error)
-      }
+    const resolved = resolveChangeset(repository, changeset, options)
+    const { summary, overrides, commit, commitSha, commitMessage, pr, authors, metadata } = resolved
+    const isInternal = isInternalChange(repository, resolved, options)
+
+    // Changesets leaves out empty release lines and the headings without lines
+    if (isInternal && options.internalChanges?.display !== 'details')
+      return ''
+
+    if (options.strict === 'error') {
+      assertChangesetResolved(changeset.id, { summary, commit: commit?.id(), pr })
     }
 
-    const [firstLine, ...restOfLines] = summary.split('\n')
-    const suffix = getSuffix(getPrNumber(commitMsg), changeset.commit, options)
+    // Commits of prereleases and snapshots may not be part of the default branch (yet), so their URLs may not exist upstream
+    const commitOptions = getCommitOptions(changeset, options)
+    const commitUrlOverride = commit ? getCommitUrlOverride(repository, commit.id(), commitOptions) : undefined
+    const prereleaseLabel = commitUrlOverride !== undefined && options.unreachableCommits === 'mark' ? `${PRERELEASE_LABEL} ` : ''
+    // PRs, issues and mentions stay in the "repo", only the commit may be linked in the repository of the packages
+    const commitUrl = commitUrlOverride === undefined && commitOptions !== options && commitSha ? getCommitUrl(commitOptions, commitSha) : commitUrlOverride
 
-    return `\n- ${firstLine}${suffix}\n${restOfLines.map(l => `  ${l}`).join('\n')}`
+    const [title, ...restOfLines] = autolinkSummary(formatConventionalSummary(summary, commitMessage, options), repository, options).split('\n')
+    const firstLine = formatSummaryTitle(title)
+    const entry = options.template
+      ? renderReleaseLine(options.template, { summary: `${prereleaseLabel}${firstLine}`, type, pr, commit: commitSha, authors, changeset, metadata }, options, commitUrl)
+      : `${prereleaseLabel}${firstLine}${getSuffix(pr, commit?.id() ?? changeset.commit, options, { ...overrides, authors }, commitUrl)}`
+
+    if (options.releaseNotes) {
+      await recordReleaseNote(CWD, changeset, { summary, pr, commit: overrides.commit ?? commitSha, authors }, options, commitUrl)
+    }
+
+    if (isInternal)
+      return formatInternalReleaseLine(entry, restOfLines)
+
+    return `\n- ${entry}\n${formatSummaryBody(restOfLines).join('\n')}`
   },
 }
 
+export { formatLintResult, lintChangesets } from './_lint'
+export type { ChangesetLintResult, LintProblem, LintResult, LintRule, ReleaseNote, ReleaseNotes } from './types'
+
 export default changelogFunctions
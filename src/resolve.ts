@@ -0,0 +1,44 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { ChangesetMetadata } from './types'
+import { resolveOptions } from './_remote'
+import { takeUnresolvedChangeset } from './_report'
+import { getCommitOptions } from './_repos'
+import { resolveChangeset } from './_resolve'
+import { getCommitUrl, getPrUrl, getRepository, getUserUrl, validate } from './_utils'
+
+/**
+ * Resolves the PR, commit and authors of a changeset from the local git history, exactly like the changelog functions do.
+ * The options are the same as the ones of the "changelog" entry in ".changeset/config.json". If "repo" is omitted, it's detected from the git remote.
+ * A commit that can't be resolved is returned as "unresolved" instead of being reported when the process exits.
+ *
+ * @example
+ * ```ts
+ * import { resolveChangesetMetadata } from 'changesets-changelog-github-local/resolve'
+ *
+ * resolveChangesetMetadata({ id: 'brave-lions', summary: 'Add feature', releases: [], commit: 'a1b2c3d...' }, { repo: 'owner/repo' });
+ * // Returns { id: 'brave-lions', summary: 'Add feature', pr: 12, commit: 'a1b2c3d...', authors: ['octocat'], urls: { pr: 'https://github.com/owner/repo/pull/12', ... } }
+ * ```
+ */
+export function resolveChangesetMetadata(changeset: NewChangesetWithCommit, changelogOptions: Record<string, any> | null): ChangesetMetadata {
+  const options = resolveOptions(changelogOptions)
+  validate(options)
+
+  const { summary, pr, commitSha, authors, metadata } = resolveChangeset(getRepository(), changeset, options)
+
+  return {
+    id: changeset.id,
+    summary,
+    pr,
+    commit: commitSha,
+    authors,
+    urls: {
+      pr: pr ? getPrUrl(options, pr) : undefined,
+      commit: commitSha ? getCommitUrl(getCommitOptions(changeset, options), commitSha) : undefined,
+      authors: authors.map(author => getUserUrl(options, author)),
+    },
+    metadata,
+    unresolved: takeUnresolvedChangeset(changeset.id),
+  }
+}
+
+export type { ChangesetMetadata, UnresolvedChangeset, UnresolvedReason } from './types'
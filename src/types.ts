@@ -1,6 +1,495 @@
+import type { ModCompWithPackage, NewChangesetWithCommit, VersionType } from '@changesets/types'
+
+export type Provider = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'forgejo'
+
+/**
+ * - "subject": Only the first line of the commit message
+ * - "message": The full commit message
+ * - "trailers": The trailers at the end of the commit message, e.g. "PR: 123"
+ */
+export type PrPatternScope = 'subject' | 'message' | 'trailers'
+
+/**
+ * How to handle changesets that can't be fully linked:
+ * - "warn": Fall back to a commit link (or no link at all) and list unresolved commits at the end of the run
+ * - "error": Throw an error, so that the release fails
+ */
+export type StrictLevel = 'warn' | 'error'
+
+/**
+ * How to link commits that aren't reachable from the "defaultBranch":
+ * - "skip": Show the short SHA without a link
+ * - "branch": Link the tree of the current branch
+ * - "mark": Show the short SHA without a link and label the entry as a pre-release
+ */
+export type UnreachableCommitMode = 'skip' | 'branch' | 'mark'
+
+/**
+ * What to use instead of an empty changeset summary:
+ * - "subject": The subject of the commit, without its PR number and Conventional Commit prefix
+ * - "message": The subject and the body of the commit. Trailers like "Co-authored-by:" are left out
+ */
+export type SummaryFallback = 'subject' | 'message'
+
+export interface ProviderTemplates {
+  repo: string
+  commit: string
+  pr: string
+  issue: string
+  user: string
+  compare: string
+  tree: string
+}
+
+export interface ProviderConfig {
+  /**
+   * The host that is used when the "host" option isn't set. Self-hosted forges don't have one.
+   */
+  defaultHost?: string
+  templates: ProviderTemplates
+}
+
+export interface DependencyOptions {
+  /**
+   * Show the previous and the new version, e.g. "pkg: 1.0.0 → 2.0.0" instead of "pkg@2.0.0"
+   * @default false
+   */
+  showRange?: boolean
+  /**
+   * Show the bump type, e.g. "pkg@2.0.0 (major)"
+   * @default false
+   */
+  showType?: boolean
+  /**
+   * Link the PRs of the changesets instead of their commits (where the PR number can be found)
+   * @default false
+   */
+  linkPrs?: boolean
+  /**
+   * List the updated dependencies under the changeset that updated them
+   * @default false
+   */
+  groupByChangeset?: boolean
+  /**
+   * Collapse the list into a single line when more dependencies than this were updated
+   */
+  collapseThreshold?: number
+}
+
+export interface PackageRepoOptions {
+  repo: `${string}/${string}`
+  /**
+   * Link the commits of the package's changesets in its repository, too. Only enable it if the repository keeps the SHAs of the monorepo.
+   * @default false
+   */
+  commits?: boolean
+}
+
+export interface InternalChangesOptions {
+  /**
+   * Treat changesets with an "internal: true" line in the summary as internal
+   * @default true
+   */
+  marker?: boolean
+  /**
+   * The Conventional Commit scopes of internal changes, e.g. ["ci", "tooling"]. The prefix of the summary or the commit subject is used.
+   */
+  scopes?: string[]
+  /**
+   * Glob patterns of internal files, e.g. ["tooling/**", ".github/"]. A changeset is internal if its commit only changed matching files (and changeset files).
+   */
+  paths?: string[]
+  /**
+   * "hide" leaves internal changes out of the changelog, "details" puts each of them into a collapsed "Internal" block
+   * @default "hide"
+   */
+  display?: 'hide' | 'details'
+}
+
+export interface ConventionalCommitsOptions {
+  /**
+   * "bold" adds a bold category label like "**Feature:**", "emoji" adds an emoji like "✨"
+   * @default "bold"
+   */
+  style?: 'bold' | 'emoji'
+  /**
+   * Labels for the commit types. They're merged with the default labels, only types with a label are recognized.
+   * @example { "feat": "New", "deps": "Dependencies" }
+   */
+  labels?: Record<string, string>
+  /**
+   * Template for the scope tag. Use an empty string to hide the scope.
+   * @default "**{scope}:**"
+   */
+  scopeTemplate?: string
+  /**
+   * Label that highlights breaking changes ("feat!:" or a "BREAKING CHANGE:" footer)
+   * @default "⚠️ **Breaking:**"
+   */
+  breakingLabel?: string
+}
+
+export interface ConventionalCommit {
+  type: string
+  scope?: string
+  breaking: boolean
+  /**
+   * The description after the prefix
+   */
+  description: string
+}
+
 export interface ValidOptions {
+  /**
+   * GitLab also supports nested groups, e.g. "group/subgroup/repo".
+   * If omitted, it's detected from the URL of the git remote.
+   * @example "org/repo"
+   */
+  repo: `${string}/${string}`
+  /**
+   * The git remote that is used to detect the "repo" option when it's omitted.
+   * @default "origin"
+   */
+  remote?: string
+  /**
+   * The forge that hosts the repository. Determines the format of the generated links.
+   * @default "github"
+   */
+  provider?: Provider
+  /**
+   * The host of a self-hosted forge, e.g. a GitHub Enterprise instance. Defaults to the public host of the provider.
+   * @example "https://github.example.com"
+   */
+  host?: string
+  /**
+   * Custom regular expressions (as strings) to extract the PR number from commit messages. Each pattern needs a named capture group called "pr".
+   * They are tried in order before the built-in patterns.
+   * @example ["\\(PR-(?<pr>\\d+)\\)$", "^\\[#(?<pr>\\d+)\\]"]
+   */
+  prPatterns?: string[]
+  /**
+   * The part of the commit message that the "prPatterns" are matched against.
+   * @default "subject"
+   */
+  prPatternScope?: PrPatternScope
+  /**
+   * Turn issue references like "#123" or "org/repo#123" in the changeset summary into links.
+   * @default false
+   */
+  linkIssues?: boolean
+  /**
+   * Turn mentions like "@octocat" in the changeset summary into profile links.
+   * @default false
+   */
+  linkMentions?: boolean
+  /**
+   * Turn commit SHAs in the changeset summary into commit links. Only SHAs that exist in the local repository are linked.
+   * @default false
+   */
+  linkCommits?: boolean
+  /**
+   * Maps issue key prefixes of external trackers (e.g. Jira) to URL templates. The placeholders "{key}", "{prefix}" and "{number}" are available.
+   * @example { "PLAT": "https://jira.example.com/browse/{key}" }
+   */
+  issueTrackers?: Record<string, string>
+  /**
+   * Formats the first line of each changelog entry. Either a string with placeholders or (when the config is loaded from JavaScript) a function.
+   * Available placeholders: "{summary}", "{pr}", "{commit}", "{authors}", "{thanks}" and "{type}". With the "metadataFile" option also "{title}" and "{labels}". Empty parentheses and brackets are removed.
+   * The remaining lines of the summary are added below.
+   * @example "{pr} {summary} ({type})"
+   */
+  template?: ReleaseLineTemplate
+  /**
+   * Formats each updated dependency. Either a string with placeholders or (when the config is loaded from JavaScript) a function.
+   * Available placeholders: "{name}", "{version}", "{oldVersion}" and "{type}".
+   * @example "{name} ({oldVersion} → {version})"
+   */
+  dependencyTemplate?: DependencyLineTemplate
+  /**
+   * Configures the "Updated dependencies" block
+   */
+  dependencies?: DependencyOptions
+  /**
+   * The branch that releases are made from, e.g. "main". Commits that aren't reachable from it (e.g. in prerelease or snapshot releases from other branches) are handled with the "unreachableCommits" option.
+   * The remote-tracking branch of the "remote" option is used if it exists, otherwise the local branch.
+   */
+  defaultBranch?: string
+  /**
+   * How to link commits that aren't reachable from the "defaultBranch"
+   * @default "skip"
+   */
+  unreachableCommits?: UnreachableCommitMode
+  /**
+   * Link updated dependencies to the comparison of their old and new version, e.g. "https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0".
+   * The link is only added if the tag of the old version exists in the local repository.
+   * @default false
+   */
+  compareLinks?: boolean
+  /**
+   * The format of your release tags. "{name}" is replaced with the package name, "{version}" with the version.
+   * @default "{name}@{version}"
+   * @example "v{version}"
+   */
+  tagFormat?: string
+  /**
+   * Use the commit message if a changeset summary is empty, e.g. because it only contains a "pr:" line
+   */
+  summaryFallback?: SummaryFallback
+  /**
+   * Parse Conventional Commit prefixes like "feat(api): " from the summary (or the commit subject) and replace them with a category label
+   * @default false
+   */
+  conventionalCommits?: boolean | ConventionalCommitsOptions
+  /**
+   * Index all merge commits of the current branch in a single walk through the history instead of searching the merge commit of every changeset separately.
+   * Speeds up releases with many changesets when you don't use squash merges. The commits that added the changeset files are always found in a single walk, with or without this option.
+   * @default false
+   */
+  prefetch?: boolean
+  /**
+   * The repositories of packages that are mirrored into a repository of their own, keyed by package name or glob pattern, e.g. { "@scope/*": "owner/scope-mirror" }.
+   * The compare links of these packages point to their repository. PRs, issues and mentions are still linked in "repo". The host and provider are the same for all repositories.
+   */
+  packageRepos?: Record<string, `${string}/${string}` | PackageRepoOptions>
+  /**
+   * The path of a JSON or NDJSON file with PR metadata (relative to the root of the repository), e.g. the output of `gh pr list --state merged --json number,title,author,labels,mergedBy,mergeCommit,commits`.
+   * PR numbers, authors, titles and labels are taken from it if it exists. Otherwise only the local git history is used.
+   */
+  metadataFile?: string
+  /**
+   * Hide changes to internal tooling from the changelog. They're detected by an "internal: true" line in the summary, their Conventional Commit scope or the files their commit changed.
+   */
+  internalChanges?: InternalChangesOptions
+  /**
+   * Record the data of every release line in a JSON file, keyed by package name and version.
+   * `true` writes "release-notes.json" next to the root CHANGELOG.md, a string is used as the path of the file (relative to the root of the repository).
+   * @default false
+   */
+  releaseNotes?: boolean | string
+  /**
+   * With "error", a release line throws if the commit of the changeset is missing, no PR number can be found, or the summary is empty.
+   * @default "warn"
+   */
+  strict?: StrictLevel
+  /**
+   * Maps commit email addresses to GitHub usernames. Used for the "Thanks @user!" attribution when the email isn't a GitHub noreply address.
+   * @example { "jane@example.com": "janedoe" }
+   */
+  usernames?: Record<string, string>
+}
+
+/**
+ * Values that were set through `pr:`, `commit:` and `author:` lines inside a changeset summary.
+ * They take precedence over the data derived from the local git repository.
+ */
+export interface SummaryOverrides {
+  pr?: number
+  commit?: string
+  authors: string[]
+  /**
+   * Set by an "internal: true" line
+   */
+  internal?: boolean
+}
+
+export interface ParsedSummary {
+  /**
+   * The summary without any override lines
+   */
+  summary: string
+  overrides: SummaryOverrides
+}
+
+export interface RemoteInfo {
+  /**
+   * @example "https://github.com"
+   */
+  host: string
   /**
    * @example "org/repo"
    */
   repo: `${string}/${string}`
 }
+
+/**
+ * The metadata of a PR from the "metadataFile" option
+ */
+export interface PullRequestMetadata {
+  number: number
+  title?: string
+  /**
+   * The username of the author
+   */
+  author?: string
+  labels: string[]
+  /**
+   * The username of the person who merged the PR
+   */
+  mergedBy?: string
+  /**
+   * The SHAs of the commits of the PR, including the merge commit
+   */
+  commits: string[]
+}
+
+export interface ReleaseLineData {
+  /**
+   * The first line of the summary
+   */
+  summary: string
+  type: VersionType
+  pr?: number
+  commit?: string
+  authors: string[]
+  changeset: NewChangesetWithCommit
+  /**
+   * The metadata of the PR from the "metadataFile" option
+   */
+  metadata?: PullRequestMetadata
+  /**
+   * The rendered Markdown links. Empty strings if the data isn't available.
+   */
+  links: {
+    pr: string
+    commit: string
+    authors: string
+  }
+}
+
+export type ReleaseLineTemplate = string | ((data: ReleaseLineData) => string)
+
+export interface DependencyLineData {
+  name: string
+  version: string
+  oldVersion: string
+  type: VersionType
+  dependency: ModCompWithPackage
+  /**
+   * The URL that compares the old and the new version. Only set with the "compareLinks" option and if the tag of the old version exists locally.
+   */
+  compareUrl?: string
+}
+
+export type DependencyLineTemplate = string | ((data: DependencyLineData) => string)
+
+/**
+ * The data that `resolveChangesetMetadata` resolves for a changeset
+ */
+export interface ChangesetMetadata {
+  /**
+   * The id of the changeset, e.g. "brave-lions-dance"
+   */
+  id: string
+  /**
+   * The summary of the changeset without any override lines
+   */
+  summary: string
+  pr?: number
+  /**
+   * The full SHA of the commit, if it's part of the local git history. Otherwise the SHA from the "commit:" line or the one Changesets found.
+   */
+  commit?: string
+  /**
+   * The usernames of the authors
+   */
+  authors: string[]
+  urls: {
+    pr?: string
+    commit?: string
+    authors: string[]
+  }
+  /**
+   * The metadata of the PR from the "metadataFile" option
+   */
+  metadata?: PullRequestMetadata
+  /**
+   * Set if the commit of the changeset couldn't be resolved
+   */
+  unresolved?: UnresolvedChangeset
+}
+
+/**
+ * A single changeset in the JSON file of the "releaseNotes" option
+ */
+export interface ReleaseNote {
+  /**
+   * The id of the changeset, e.g. "brave-lions-dance"
+   */
+  changeset: string
+  type: VersionType
+  /**
+   * The summary of the changeset without any override lines
+   */
+  summary: string
+  pr?: number
+  commit?: string
+  /**
+   * The usernames of the authors
+   */
+  authors: string[]
+  urls: {
+    pr?: string
+    commit?: string
+    authors: string[]
+  }
+}
+
+/**
+ * The release notes of all packages, e.g. { "pkg": { "1.1.0": [...] } }
+ */
+export type ReleaseNotes = Record<string, Record<string, ReleaseNote[]>>
+
+/**
+ * Why the commit of a changeset couldn't be resolved:
+ * - "missing-commit": The changeset has no commit and the commit that added its file couldn't be found
+ * - "commit-not-found": The commit isn't part of the local git history, e.g. because of a shallow clone
+ * - "lookup-failed": Looking up the commit threw an error
+ */
+export type UnresolvedReason = 'missing-commit' | 'commit-not-found' | 'lookup-failed'
+
+export interface UnresolvedChangeset {
+  /**
+   * The id of the changeset, e.g. "brave-lions-dance"
+   */
+  id: string
+  commit?: string
+  reason: UnresolvedReason
+  /**
+   * A human readable description of the reason
+   */
+  message: string
+}
+
+/**
+ * The checks of `lintChangesets`:
+ * - "missing-commit": The changeset doesn't resolve to a commit in the local git history
+ * - "missing-pr": Neither the commit (or its merge commit) nor a "pr:" line references a PR
+ * - "invalid-override": A "pr:" or "commit:" line in the summary is malformed or repeated
+ */
+export type LintRule = 'missing-commit' | 'missing-pr' | 'invalid-override'
+
+export interface LintProblem {
+  rule: LintRule
+  message: string
+  /**
+   * The line in the changeset file the problem refers to (1-based)
+   */
+  line: number
+}
+
+export interface ChangesetLintResult {
+  id: string
+  /**
+   * The path of the changeset file, relative to the root of the repository
+   * @example ".changeset/brave-lions-dance.md"
+   */
+  file: string
+  commit?: string
+  pr?: number
+  problems: LintProblem[]
+}
+
+export interface LintResult {
+  changesets: ChangesetLintResult[]
+  problemCount: number
+}
@@ -0,0 +1,25 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+/**
+ * Creates an empty directory in the temp directory of the OS, e.g. for a workspace with package.json and changeset files
+ */
+export function createTempDirectory(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix))
+}
+
+/**
+ * Removes a directory created by `createTempDirectory` with all of its files
+ */
+export function removeTempDirectory(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true })
+}
+
+/**
+ * Writes a file relative to the directory and creates its parent directories if needed
+ */
+export function writeFile(dir: string, file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true })
+  fs.writeFileSync(path.join(dir, file), content)
+}
@@ -0,0 +1,150 @@
+import type { Commit, Repository } from '@napi-rs/simple-git'
+
+export interface FakeCommit {
+  parents: string[]
+  message: string
+  email?: string
+  /**
+   * The files in the tree of the commit
+   */
+  files?: string[]
+  /**
+   * The contents of files in the tree of the commit. Files with different contents have different blob ids.
+   */
+  contents?: Record<string, string>
+}
+
+interface FakeTreeEntry {
+  name: () => string
+  id: () => string
+}
+
+interface FakeTree {
+  iter: () => FakeTreeEntry[]
+  getName: (name: string) => FakeTreeEntry | null
+}
+
+/**
+ * Creates a minimal in-memory stand-in for a @napi-rs/simple-git Repository.
+ * Only the parts of the commit graph API that the source code uses are implemented.
+ */
+export function createFakeRepository(commits: Record<string, FakeCommit>, head: string, { shallow = false, tags = [] as string[], refs = {} as Record<string, string>, branch = 'main' as string | null } = {}): Repository {
+  function ancestors(shas: string[], firstParentOnly = false): string[] {
+    const seen = new Set<string>()
+    const queue = [...shas]
+
+    while (queue.length > 0) {
+      const sha = queue.shift()!
+
+      if (seen.has(sha) || !commits[sha])
+        continue
+
+      seen.add(sha)
+      const parents = commits[sha].parents
+      queue.push(...(firstParentOnly ? parents.slice(0, 1) : parents))
+    }
+
+    return [...seen]
+  }
+
+  function revWalk() {
+    const pushed: string[] = []
+    const hidden: string[] = []
+    let firstParentOnly = false
+
+    const walk = {
+      push: (sha: string) => {
+        pushed.push(sha)
+        return walk
+      },
+      pushHead: () => {
+        pushed.push(head)
+        return walk
+      },
+      pushRef: (ref: string) => {
+        if (!refs[ref])
+          throw new Error(`reference '${ref}' not found`)
+
+        pushed.push(refs[ref])
+        return walk
+      },
+      hide: (sha: string) => {
+        hidden.push(sha)
+        return walk
+      },
+      simplifyFirstParent: () => {
+        firstParentOnly = true
+        return walk
+      },
+      [Symbol.iterator]: () => {
+        const hiddenShas = new Set(ancestors(hidden))
+        return ancestors(pushed, firstParentOnly).filter(sha => !hiddenShas.has(sha))[Symbol.iterator]()
+      },
+    }
+
+    return walk
+  }
+
+  const trees = new Map<string, FakeTree>()
+
+  /**
+   * Builds the tree of a directory from the paths of its files. Like in git, the id of a tree only depends on its contents.
+   */
+  function createTree(files: Record<string, string>): string {
+    const entries = new Map<string, string>()
+    const dirs = new Map<string, Record<string, string>>()
+
+    for (const [path, blobId] of Object.entries(files)) {
+      const [name, ...rest] = path.split('/')
+
+      if (rest.length === 0)
+        entries.set(name, blobId)
+      else
+        dirs.set(name, { ...dirs.get(name), [rest.join('/')]: blobId })
+    }
+
+    for (const [name, dirFiles] of dirs) {
+      entries.set(name, createTree(dirFiles))
+    }
+
+    const treeEntries = [...entries].sort(([a], [b]) => a.localeCompare(b)).map(([name, id]) => ({ name: () => name, id: () => id }))
+    const id = `tree:${JSON.stringify([...entries].sort())}`
+
+    trees.set(id, { iter: () => treeEntries, getName: name => treeEntries.find(entry => entry.name() === name) ?? null })
+
+    return id
+  }
+
+  function findTree(id: string) {
+    return trees.get(id) ?? null
+  }
+
+  function findCommit(shortSha: string) {
+    // Like git, a unique prefix of the SHA is enough
+    const sha = commits[shortSha] ? shortSha : Object.keys(commits).find(key => key.startsWith(shortSha))
+
+    if (!sha)
+      return null
+
+    const commit = commits[sha]
+
+    return {
+      id: () => sha,
+      message: () => commit.message,
+      author: () => ({ email: () => commit.email ?? null }),
+      committer: () => ({ email: () => commit.email ?? null }),
+      parentCount: () => BigInt(commit.parents.length),
+      parentId: (i: number) => commit.parents[i],
+      tree: () => {
+        const paths = [...commit.files ?? [], ...Object.keys(commit.contents ?? {})]
+        const tree = findTree(createTree(Object.fromEntries(paths.map(path => [path, `blob:${path}:${commit.contents?.[path] ?? ''}`]))))!
+
+        return { ...tree, getPath: (path: string) => paths.includes(path) ? { name: () => path } : null }
+      },
+    } as unknown as Commit
+  }
+
+  const headReference = { isBranch: () => branch !== null, shorthand: () => branch ?? 'HEAD' }
+
+  return { revWalk, findCommit, findTree, head: () => headReference, isShallow: () => shallow, workdir: () => null, tagNames: () => tags } as unknown as Repository
+}
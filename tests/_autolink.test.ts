@@ -0,0 +1,99 @@
+import type { ValidOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { autolinkSummary, linkCommitShas, linkIssueKeys, linkIssueReferences, linkMentions } from '../src/_autolink'
+import { createFakeRepository } from './__fixtures__/repository'
+
+describe('_autolink', () => {
+  const options: ValidOptions = { repo: 'owner/repo' }
+  const repository = createFakeRepository({
+    a1b2c3d4e5f60718293a4b5c6d7e8f9012345678: { parents: [], message: 'Initial commit' },
+  }, 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678')
+
+  describe('linkIssueReferences', () => {
+    it('links issue references', () => {
+      expect(linkIssueReferences('fixes #789', options)).toBe('fixes [#789](https://github.com/owner/repo/issues/789)')
+      expect(linkIssueReferences('#1, (#2) and #3.', options)).toBe('[#1](https://github.com/owner/repo/issues/1), ([#2](https://github.com/owner/repo/issues/2)) and [#3](https://github.com/owner/repo/issues/3).')
+    })
+
+    it('links issue references of other repositories', () => {
+      expect(linkIssueReferences('see org/other-repo#12', options)).toBe('see [org/other-repo#12](https://github.com/org/other-repo/issues/12)')
+      expect(linkIssueReferences('see group/sub/repo#12', { repo: 'group/repo', provider: 'gitlab' })).toBe('see [group/sub/repo#12](https://gitlab.com/group/sub/repo/-/issues/12)')
+    })
+
+    it('ignores things that are not issue references', () => {
+      expect(linkIssueReferences('abc#123 &#123; ##12 #abc', options)).toBe('abc#123 &#123; ##12 #abc')
+    })
+  })
+
+  describe('linkIssueKeys', () => {
+    const trackerOptions: ValidOptions = {
+      ...options,
+      issueTrackers: {
+        PLAT: 'https://jira.example.com/browse/{key}',
+        OPS: 'https://tracker.example.com/{prefix}/issue/{number}',
+      },
+    }
+
+    it('links configured issue keys', () => {
+      expect(linkIssueKeys('Closes PLAT-1234 and OPS-5', trackerOptions)).toBe('Closes [PLAT-1234](https://jira.example.com/browse/PLAT-1234) and [OPS-5](https://tracker.example.com/OPS/issue/5)')
+    })
+
+    it('ignores unknown prefixes and partial matches', () => {
+      expect(linkIssueKeys('FOO-12 XPLAT-1 PLAT-12a', trackerOptions)).toBe('FOO-12 XPLAT-1 PLAT-12a')
+    })
+
+    it('returns the text unchanged without issue trackers', () => {
+      expect(linkIssueKeys('PLAT-1234', options)).toBe('PLAT-1234')
+    })
+  })
+
+  describe('linkMentions', () => {
+    it('links mentions', () => {
+      expect(linkMentions('thanks to @alice and @bob-smith!', options)).toBe('thanks to [@alice](https://github.com/alice) and [@bob-smith](https://github.com/bob-smith)!')
+    })
+
+    it('ignores emails and npm scopes', () => {
+      expect(linkMentions('mail jane@example.com about @scope/pkg', options)).toBe('mail jane@example.com about @scope/pkg')
+    })
+  })
+
+  describe('linkCommitShas', () => {
+    it('links SHAs that exist in the repository', () => {
+      expect(linkCommitShas('reverts a1b2c3d.', repository, options)).toBe('reverts [`a1b2c3d`](https://github.com/owner/repo/commit/a1b2c3d4e5f60718293a4b5c6d7e8f9012345678).')
+      expect(linkCommitShas('reverts a1b2c3d4e5f60718293a4b5c6d7e8f9012345678', repository, options)).toBe('reverts [`a1b2c3d`](https://github.com/owner/repo/commit/a1b2c3d4e5f60718293a4b5c6d7e8f9012345678)')
+    })
+
+    it('ignores hex strings that are not commits', () => {
+      expect(linkCommitShas('color deadbeef and 1234567', repository, options)).toBe('color deadbeef and 1234567')
+    })
+
+    it('ignores SHAs that cannot be looked up', () => {
+      const brokenRepository = { findCommit: () => {
+        throw new Error('ambiguous')
+      } } as unknown as typeof repository
+      expect(linkCommitShas('reverts a1b2c3d', brokenRepository, options)).toBe('reverts a1b2c3d')
+    })
+  })
+
+  describe('autolinkSummary', () => {
+    it('leaves references in code and links untouched', () => {
+      const summary = 'Fix #1 in `#2`, [#3](https://example.com) and https://github.com/owner/repo/issues/4#issuecomment-5\n```\n#6\n```'
+      expect(autolinkSummary(summary, repository, { ...options, linkIssues: true })).toBe('Fix [#1](https://github.com/owner/repo/issues/1) in `#2`, [#3](https://example.com) and https://github.com/owner/repo/issues/4#issuecomment-5\n```\n#6\n```')
+    })
+
+    it('links issue references and issue keys', () => {
+      expect(autolinkSummary('Fix #1 (PLAT-2)', repository, { ...options, linkIssues: true, issueTrackers: { PLAT: 'https://jira.example.com/browse/{key}' } })).toBe('Fix [#1](https://github.com/owner/repo/issues/1) ([PLAT-2](https://jira.example.com/browse/PLAT-2))')
+    })
+
+    it('links mentions and commit SHAs when enabled', () => {
+      const summary = 'Thanks @alice, reverts a1b2c3d (`a1b2c3d`)'
+      expect(autolinkSummary(summary, repository, options)).toBe(summary)
+      expect(autolinkSummary(summary, repository, { ...options, linkMentions: true, linkCommits: true })).toBe('Thanks [@alice](https://github.com/alice), reverts [`a1b2c3d`](https://github.com/owner/repo/commit/a1b2c3d4e5f60718293a4b5c6d7e8f9012345678) (`a1b2c3d`)')
+    })
+
+    it('leaves issue references untouched by default', () => {
+      expect(autolinkSummary('Fix #1', repository, options)).toBe('Fix #1')
+      expect(autolinkSummary('Fix #1', repository, { ...options, linkIssues: false })).toBe('Fix #1')
+    })
+  })
+})
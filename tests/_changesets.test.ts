@@ -0,0 +1,70 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { parseChangeset, readChangesetConfig, readChangesetFiles } from '../src/_changesets'
+
+describe('_changesets', () => {
+  describe('parseChangeset', () => {
+    it('parses the releases and the summary', () => {
+      expect(parseChangeset('---\n"pkg-1": minor\n\'@scope/pkg-2\': patch\npkg-3: none\n---\n\nAdd feature\n\nWith details\n', 'brave-lions')).toEqual({
+        id: 'brave-lions',
+        summary: 'Add feature\n\nWith details',
+        releases: [
+          { name: 'pkg-1', type: 'minor' },
+          { name: '@scope/pkg-2', type: 'patch' },
+          { name: 'pkg-3', type: 'none' },
+        ],
+      })
+    })
+
+    it('handles CRLF line endings and empty summaries', () => {
+      expect(parseChangeset('---\r\n"pkg": major\r\n---\r\n', 'brave-lions')).toEqual({ id: 'brave-lions', summary: '', releases: [{ name: 'pkg', type: 'major' }] })
+    })
+
+    it('throws for invalid changesets', () => {
+      expect(() => parseChangeset('Add feature', 'brave-lions')).toThrow('Couldn\'t parse the changeset "brave-lions". It must start with a front matter block')
+      expect(() => parseChangeset('---\n"pkg": huge\n---\n\nAdd feature', 'brave-lions')).toThrow('Couldn\'t parse the changeset "brave-lions". Invalid release: "pkg": huge')
+    })
+  })
+
+  describe('reading files', () => {
+    let cwd: string
+
+    beforeEach(() => {
+      cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'changesets-'))
+      fs.mkdirSync(path.join(cwd, '.changeset'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(cwd, { recursive: true, force: true })
+    })
+
+    it('reads all changesets except the README', () => {
+      fs.writeFileSync(path.join(cwd, '.changeset', 'README.md'), '# Changesets')
+      fs.writeFileSync(path.join(cwd, '.changeset', 'quiet-owls.md'), '---\n"pkg": patch\n---\n\nFix bug')
+      fs.writeFileSync(path.join(cwd, '.changeset', 'brave-lions.md'), '---\n"pkg": minor\n---\n\nAdd feature')
+      fs.writeFileSync(path.join(cwd, '.changeset', 'config.json'), '{}')
+
+      expect(readChangesetFiles(cwd).map(file => file.id)).toEqual(['brave-lions', 'quiet-owls'])
+    })
+
+    it('throws without a .changeset directory', () => {
+      fs.rmSync(path.join(cwd, '.changeset'), { recursive: true })
+
+      expect(() => readChangesetFiles(cwd)).toThrow('There is no ".changeset" directory')
+    })
+
+    it('reads the changelog options from the config', () => {
+      fs.writeFileSync(path.join(cwd, '.changeset', 'config.json'), JSON.stringify({
+        changelog: ['changesets-changelog-github-local', { repo: 'owner/repo' }],
+      }))
+
+      expect(readChangesetConfig(cwd)).toEqual({ changelogOptions: { repo: 'owner/repo' } })
+    })
+
+    it('uses defaults without a config', () => {
+      expect(readChangesetConfig(cwd)).toEqual({ changelogOptions: {} })
+    })
+  })
+})
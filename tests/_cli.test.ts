@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { run } from '../src/_cli'
+
+vi.mock('../src/_preview', () => ({
+  renderPreview: vi.fn(async () => '# pkg\n\n## 1.1.0'),
+}))
+
+vi.mock('../src/_compare', () => ({
+  addFullChangelogLinks: vi.fn(() => ['packages/pkg/CHANGELOG.md']),
+}))
+
+vi.mock('../src/_lint', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/_lint')>(),
+  lintChangesets: vi.fn(() => ({
+    changesets: [{ id: 'quiet-owls', file: '.changeset/quiet-owls.md', problems: [{ rule: 'missing-pr', message: 'No PR', line: 1 }] }],
+    problemCount: 1,
+  })),
+}))
+
+describe('_cli', () => {
+  const stdoutSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+  const stderrSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  beforeEach(() => {
+    stdoutSpy.mockClear()
+    stderrSpy.mockClear()
+  })
+
+  it('prints the preview', async () => {
+    expect(await run(['preview'])).toBe(0)
+    expect(stdoutSpy).toHaveBeenCalledWith('# pkg\n\n## 1.1.0\n')
+  })
+
+  it('prints the changelogs with a new "Full Changelog" link', async () => {
+    expect(await run(['full-changelog'])).toBe(0)
+    expect(stdoutSpy).toHaveBeenCalledWith('Added a "Full Changelog" link to:\n- packages/pkg/CHANGELOG.md\n')
+  })
+
+  it('fails if the lint command finds problems', async () => {
+    expect(await run(['lint', '--format', 'github'])).toBe(1)
+    expect(stdoutSpy).toHaveBeenCalledWith('::error file=.changeset/quiet-owls.md,line=1,title=missing-pr::No PR\n')
+  })
+
+  it('fails for unknown lint formats', async () => {
+    expect(await run(['lint', '--format', 'xml'])).toBe(1)
+    expect(stderrSpy).toHaveBeenCalledWith('Invalid format "xml". Please use one of: "text", "json", "github"')
+  })
+
+  it('prints the help', async () => {
+    expect(await run(['--help'])).toBe(0)
+    expect(stdoutSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: changesets-changelog-github-local <command>'))
+  })
+
+  it('fails without a command', async () => {
+    expect(await run([])).toBe(1)
+  })
+
+  it('fails for unknown commands', async () => {
+    expect(await run(['publish'])).toBe(1)
+    expect(stderrSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown command "publish".'))
+  })
+})
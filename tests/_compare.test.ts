@@ -0,0 +1,81 @@
+import type { ValidOptions } from '../src/types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { addFullChangelogLink, addFullChangelogLinks, getReleaseCompareUrl } from '../src/_compare'
+import { clearRepositoryCache } from '../src/_utils'
+import { createTempDirectory, removeTempDirectory, writeFile } from './__fixtures__/directory'
+import { createFakeRepository } from './__fixtures__/repository'
+
+const repository = createFakeRepository({ abc1234567890: { parents: [], message: 'Release' } }, 'abc1234567890', { tags: ['pkg@1.0.0', 'v1.0.0'] })
+
+vi.mock('@napi-rs/simple-git', () => ({
+  Repository: {
+    discover: vi.fn(() => repository),
+  },
+}))
+
+const options: ValidOptions = { repo: 'owner/repo' }
+
+const changelog = '# pkg\n\n## 1.1.0\n\n### Minor Changes\n\n- Add feature\n\n## 1.0.0\n\n### Major Changes\n\n- Initial release\n'
+
+describe('_compare', () => {
+  describe('getReleaseCompareUrl', () => {
+    it('compares the tags of the versions', () => {
+      expect(getReleaseCompareUrl(repository, 'pkg', '1.0.0', '1.1.0', options)).toBe('https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0')
+      expect(getReleaseCompareUrl(repository, 'pkg', '1.0.0', '1.1.0', { ...options, tagFormat: 'v{version}' })).toBe('https://github.com/owner/repo/compare/v1.0.0...v1.1.0')
+      expect(getReleaseCompareUrl(repository, 'pkg', '1.0.0', '1.1.0', { ...options, packageRepos: { pkg: 'owner/pkg' } })).toBe('https://github.com/owner/pkg/compare/pkg@1.0.0...pkg@1.1.0')
+    })
+
+    it('returns undefined if the old tag doesn\'t exist', () => {
+      expect(getReleaseCompareUrl(repository, 'pkg', '0.9.0', '1.0.0', options)).toBe(undefined)
+    })
+  })
+
+  describe('addFullChangelogLink', () => {
+    it('adds the link to the end of the newest entry', () => {
+      expect(addFullChangelogLink(changelog, 'pkg', '1.1.0', repository, options)).toBe('# pkg\n\n## 1.1.0\n\n### Minor Changes\n\n- Add feature\n\n**Full Changelog**: [pkg@1.0.0...pkg@1.1.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0)\n\n## 1.0.0\n\n### Major Changes\n\n- Initial release\n')
+    })
+
+    it('adds the link only once', () => {
+      const linkedChangelog = addFullChangelogLink(changelog, 'pkg', '1.1.0', repository, options)
+
+      expect(addFullChangelogLink(linkedChangelog, 'pkg', '1.1.0', repository, options)).toBe(linkedChangelog)
+    })
+
+    it('keeps the changelog if the newest entry isn\'t the given version', () => {
+      expect(addFullChangelogLink(changelog, 'pkg', '1.2.0', repository, options)).toBe(changelog)
+    })
+
+    it('keeps the changelog without an older entry or its tag', () => {
+      expect(addFullChangelogLink('# pkg\n\n## 1.0.0\n\n- Initial release\n', 'pkg', '1.0.0', repository, options)).toBe('# pkg\n\n## 1.0.0\n\n- Initial release\n')
+      expect(addFullChangelogLink(changelog, 'other', '1.1.0', repository, options)).toBe(changelog)
+    })
+  })
+
+  describe('addFullChangelogLinks', () => {
+    let cwd: string
+
+    beforeEach(() => {
+      clearRepositoryCache()
+      cwd = createTempDirectory('changelog-compare-')
+      writeFile(cwd, 'package.json', JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }))
+      writeFile(cwd, '.changeset/config.json', JSON.stringify({ changelog: ['changesets-changelog-github-local', { repo: 'owner/repo' }] }))
+    })
+
+    afterEach(() => {
+      removeTempDirectory(cwd)
+    })
+
+    it('links the new entries of the changelogs', () => {
+      writeFile(cwd, 'packages/pkg/package.json', JSON.stringify({ name: 'pkg', version: '1.1.0' }))
+      writeFile(cwd, 'packages/pkg/CHANGELOG.md', changelog)
+      writeFile(cwd, 'packages/other/package.json', JSON.stringify({ name: 'other', version: '1.0.0' }))
+      writeFile(cwd, 'packages/other/CHANGELOG.md', '# other\n\n## 1.0.0\n\n- Initial release\n')
+
+      expect(addFullChangelogLinks(cwd)).toEqual(['packages/pkg/CHANGELOG.md'])
+      expect(fs.readFileSync(path.join(cwd, 'packages/pkg/CHANGELOG.md'), 'utf8')).toContain('**Full Changelog**: [pkg@1.0.0...pkg@1.1.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@1.1.0)')
+      expect(addFullChangelogLinks(cwd)).toEqual([])
+    })
+  })
+})
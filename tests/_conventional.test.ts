@@ -0,0 +1,83 @@
+import type { ValidOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { formatConventionalSummary, getConventionalScope, parseConventionalCommit, removeConventionalPrefix } from '../src/_conventional'
+
+const options: ValidOptions = { repo: 'owner/repo', conventionalCommits: true }
+
+describe('_conventional', () => {
+  describe('parseConventionalCommit', () => {
+    it('parses the type, scope and description', () => {
+      expect(parseConventionalCommit('feat(api): Add endpoint')).toEqual({ type: 'feat', scope: 'api', breaking: false, description: 'Add endpoint' })
+      expect(parseConventionalCommit('fix: Handle errors\n\nWith details')).toEqual({ type: 'fix', scope: undefined, breaking: false, description: 'Handle errors' })
+    })
+
+    it('detects breaking changes', () => {
+      expect(parseConventionalCommit('feat(api)!: Remove v1')?.breaking).toBe(true)
+      expect(parseConventionalCommit('feat: Remove v1\n\nBREAKING CHANGE: The v1 API is gone')?.breaking).toBe(true)
+      expect(parseConventionalCommit('feat: Remove v1\n\nBREAKING-CHANGE: The v1 API is gone')?.breaking).toBe(true)
+    })
+
+    it('ignores unknown types and texts without a prefix', () => {
+      expect(parseConventionalCommit('Note: This is important')).toBe(undefined)
+      expect(parseConventionalCommit('Add endpoint')).toBe(undefined)
+      expect(parseConventionalCommit('feat:Add endpoint')).toBe(undefined)
+    })
+  })
+
+  describe('formatConventionalSummary', () => {
+    it('returns the summary unchanged when disabled', () => {
+      expect(formatConventionalSummary('feat(api): Add endpoint', undefined, { repo: 'owner/repo' })).toBe('feat(api): Add endpoint')
+    })
+
+    it('replaces the prefix with a bold label and scope tag', () => {
+      expect(formatConventionalSummary('feat(api): Add endpoint\nWith details', undefined, options)).toBe('**Feature:** **api:** Add endpoint\nWith details')
+      expect(formatConventionalSummary('fix: Handle errors', undefined, options)).toBe('**Fix:** Handle errors')
+    })
+
+    it('uses emojis', () => {
+      expect(formatConventionalSummary('perf(core): Faster builds', undefined, { ...options, conventionalCommits: { style: 'emoji' } })).toBe('⚡️ **core:** Faster builds')
+    })
+
+    it('falls back to the prefix of the commit subject', () => {
+      expect(formatConventionalSummary('Add endpoint', 'feat(api): Add endpoint (#12)', options)).toBe('**Feature:** **api:** Add endpoint')
+      expect(formatConventionalSummary('Add endpoint', 'Add endpoint (#12)', options)).toBe('Add endpoint')
+    })
+
+    it('highlights breaking changes', () => {
+      expect(formatConventionalSummary('feat!: Remove v1', undefined, options)).toBe('⚠️ **Breaking:** **Feature:** Remove v1')
+      expect(formatConventionalSummary('feat: Remove v1\n\nBREAKING CHANGE: The v1 API is gone', undefined, options)).toBe('⚠️ **Breaking:** **Feature:** Remove v1\n\nBREAKING CHANGE: The v1 API is gone')
+      expect(formatConventionalSummary('Remove v1\n\nBREAKING CHANGE: The v1 API is gone', 'feat: Remove v1', options)).toBe('⚠️ **Breaking:** **Feature:** Remove v1\n\nBREAKING CHANGE: The v1 API is gone')
+    })
+
+    it('supports custom labels, scope templates and breaking labels', () => {
+      const customOptions: ValidOptions = {
+        ...options,
+        conventionalCommits: { labels: { feat: 'New', deps: 'Dependencies' }, scopeTemplate: '`{scope}`', breakingLabel: '💥' },
+      }
+
+      expect(formatConventionalSummary('feat(api)!: Add endpoint', undefined, customOptions)).toBe('💥 **New:** `api` Add endpoint')
+      expect(formatConventionalSummary('deps: Update react', undefined, customOptions)).toBe('**Dependencies:** Update react')
+      expect(formatConventionalSummary('fix(api): Handle errors', undefined, { ...options, conventionalCommits: { scopeTemplate: '' } })).toBe('**Fix:** Handle errors')
+    })
+  })
+
+  describe('getConventionalScope', () => {
+    it('returns the scope of the summary or the commit subject', () => {
+      expect(getConventionalScope('ci(release): Update workflow', 'fix(api): Handle errors', options)).toBe('release')
+      expect(getConventionalScope('Update workflow', 'ci(release): Update workflow (#12)', { repo: 'owner/repo' })).toBe('release')
+      expect(getConventionalScope('ci: Update workflow', undefined, options)).toBe(undefined)
+    })
+
+    it('recognizes the custom types', () => {
+      expect(getConventionalScope('infra(docker): Update image', undefined, options)).toBe(undefined)
+      expect(getConventionalScope('infra(docker): Update image', undefined, { ...options, conventionalCommits: { labels: { infra: 'Infrastructure' } } })).toBe('docker')
+    })
+  })
+
+  describe('removeConventionalPrefix', () => {
+    it('removes the prefix of the first line', () => {
+      expect(removeConventionalPrefix('fix(api)!: Handle errors\n\nfeat: Details', options)).toBe('Handle errors\n\nfeat: Details')
+      expect(removeConventionalPrefix('Note: Handle errors', options)).toBe('Note: Handle errors')
+    })
+  })
+})
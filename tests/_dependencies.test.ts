@@ -0,0 +1,141 @@
+import type { ModCompWithPackage, NewChangesetWithCommit } from '@changesets/types'
+import type { ValidOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { formatDependencyBlock, formatDependencyBlocksByChangeset, getChangesetLink, getDependencyItem } from '../src/_dependencies'
+import { createFakeRepository } from './__fixtures__/repository'
+
+function createDependency(name: string, changesets: string[]): ModCompWithPackage {
+  return {
+    name,
+    newVersion: '2.0.0',
+    oldVersion: '1.0.0',
+    type: 'major',
+    changesets,
+    packageJson: { name, version: '2.0.0' },
+    dir: `packages/${name}`,
+  }
+}
+
+describe('_dependencies', () => {
+  const options: ValidOptions = { repo: 'owner/repo' }
+  const repository = createFakeRepository({
+    abc1234567890: { parents: [], message: 'Add feature (#12)' },
+    def1234567890: { parents: ['abc1234567890'], message: 'Fix bug' },
+  }, 'def1234567890')
+
+  describe('getDependencyItem', () => {
+    const dependency = createDependency('pkg', [])
+
+    it('returns the name and new version by default', () => {
+      expect(getDependencyItem(dependency, options)).toBe('pkg@2.0.0')
+    })
+
+    it('shows the version range and bump type', () => {
+      expect(getDependencyItem(dependency, { ...options, dependencies: { showRange: true } })).toBe('pkg: 1.0.0 → 2.0.0')
+      expect(getDependencyItem(dependency, { ...options, dependencies: { showType: true } })).toBe('pkg@2.0.0 (major)')
+      expect(getDependencyItem(dependency, { ...options, dependencies: { showRange: true, showType: true } })).toBe('pkg: 1.0.0 → 2.0.0 (major)')
+    })
+
+    it('links the comparison of the versions if the old tag exists', () => {
+      const taggedRepository = createFakeRepository({ abc1234567890: { parents: [], message: 'Release' } }, 'abc1234567890', { tags: ['pkg@1.0.0'] })
+
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true }, taggedRepository)).toBe('[pkg@2.0.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0)')
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true, dependencies: { showType: true } }, taggedRepository)).toBe('[pkg@2.0.0](https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0) (major)')
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true, dependencyTemplate: '{name} ({compareUrl})' }, taggedRepository)).toBe('pkg (https://github.com/owner/repo/compare/pkg@1.0.0...pkg@2.0.0)')
+    })
+
+    it('links the comparison in the repository of the dependency', () => {
+      const taggedRepository = createFakeRepository({ abc1234567890: { parents: [], message: 'Release' } }, 'abc1234567890', { tags: ['pkg@1.0.0'] })
+
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true, packageRepos: { pkg: 'owner/pkg' } }, taggedRepository)).toBe('[pkg@2.0.0](https://github.com/owner/pkg/compare/pkg@1.0.0...pkg@2.0.0)')
+    })
+
+    it('skips the compare link if the old tag does not exist', () => {
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true }, repository)).toBe('pkg@2.0.0')
+      expect(getDependencyItem(dependency, { ...options, compareLinks: true, tagFormat: 'v{version}' }, createFakeRepository({}, 'abc', { tags: ['pkg@1.0.0'] }))).toBe('pkg@2.0.0')
+    })
+  })
+
+  describe('getChangesetLink', () => {
+    const changeset: NewChangesetWithCommit = { id: 'changeset-1', commit: 'abc1234567890', summary: 'Add feature', releases: [] }
+
+    it('links the commit by default', () => {
+      expect(getChangesetLink(changeset, options, repository)).toBe('[`abc1234`](https://github.com/owner/repo/commit/abc1234567890)')
+    })
+
+    it('links the PR when enabled', () => {
+      expect(getChangesetLink(changeset, { ...options, dependencies: { linkPrs: true } }, repository)).toBe('[#12](https://github.com/owner/repo/pull/12)')
+    })
+
+    it('falls back to the commit when no PR can be found', () => {
+      const withoutPr = { ...changeset, commit: 'def1234567890' }
+      expect(getChangesetLink(withoutPr, { ...options, dependencies: { linkPrs: true } }, repository)).toBe('[`def1234`](https://github.com/owner/repo/commit/def1234567890)')
+    })
+
+    it('uses the overrides from the summary', () => {
+      const withOverrides = { ...changeset, summary: 'pr: #34\ncommit: fed1234567890\nAdd feature' }
+      expect(getChangesetLink(withOverrides, options, repository)).toBe('[`fed1234`](https://github.com/owner/repo/commit/fed1234567890)')
+      expect(getChangesetLink(withOverrides, { ...options, dependencies: { linkPrs: true } }, repository)).toBe('[#34](https://github.com/owner/repo/pull/34)')
+    })
+
+    it('links the commit to the repository of the released packages if it keeps the commits', () => {
+      const packageOptions: ValidOptions = { ...options, packageRepos: { 'pkg-*': { repo: 'owner/mirror', commits: true } } }
+
+      expect(getChangesetLink({ ...changeset, releases: [{ name: 'pkg-a', type: 'patch' }] }, packageOptions, repository)).toBe('[`abc1234`](https://github.com/owner/mirror/commit/abc1234567890)')
+      expect(getChangesetLink({ ...changeset, releases: [{ name: 'pkg-a', type: 'patch' }] }, { ...packageOptions, packageRepos: { 'pkg-*': 'owner/mirror' } }, repository)).toBe('[`abc1234`](https://github.com/owner/repo/commit/abc1234567890)')
+      expect(getChangesetLink({ ...changeset, releases: [{ name: 'pkg-a', type: 'patch' }] }, { ...packageOptions, dependencies: { linkPrs: true } }, repository)).toBe('[#12](https://github.com/owner/repo/pull/12)')
+    })
+
+    it('returns undefined without a commit', () => {
+      expect(getChangesetLink({ ...changeset, commit: undefined }, options, repository)).toBe(undefined)
+    })
+
+    it('doesn\'t link commits that aren\'t reachable from the default branch', () => {
+      const branchRepository = createFakeRepository({
+        abc1234567890: { parents: [], message: 'Add feature' },
+        def1234567890: { parents: ['abc1234567890'], message: 'Fix bug' },
+      }, 'def1234567890', { refs: { 'refs/heads/main': 'abc1234567890' } })
+
+      expect(getChangesetLink({ ...changeset, commit: 'def1234567890' }, { ...options, defaultBranch: 'main' }, branchRepository)).toBe('`def1234`')
+      expect(getChangesetLink(changeset, { ...options, defaultBranch: 'main' }, branchRepository)).toBe('[`abc1234`](https://github.com/owner/repo/commit/abc1234567890)')
+    })
+  })
+
+  describe('formatDependencyBlock', () => {
+    it('formats a list of dependencies', () => {
+      expect(formatDependencyBlock(['[#12](url)'], ['pkg-1@1.0.0', 'pkg-2@2.0.0'], options)).toBe('- Updated dependencies [[#12](url)]:\n  - pkg-1@1.0.0\n  - pkg-2@2.0.0')
+      expect(formatDependencyBlock([], ['pkg-1@1.0.0'], options)).toBe('- Updated dependencies:\n  - pkg-1@1.0.0')
+    })
+
+    it('collapses long lists into a single line', () => {
+      const collapseOptions: ValidOptions = { ...options, dependencies: { collapseThreshold: 1 } }
+      expect(formatDependencyBlock(['[#12](url)'], ['pkg-1@1.0.0', 'pkg-2@2.0.0'], collapseOptions)).toBe('- Updated dependencies [[#12](url)]: pkg-1@1.0.0, pkg-2@2.0.0')
+      expect(formatDependencyBlock(['[#12](url)'], ['pkg-1@1.0.0'], collapseOptions)).toBe('- Updated dependencies [[#12](url)]:\n  - pkg-1@1.0.0')
+    })
+  })
+
+  describe('formatDependencyBlocksByChangeset', () => {
+    it('groups the dependencies by changeset', () => {
+      const changesets: NewChangesetWithCommit[] = [
+        { id: 'changeset-1', commit: 'abc1234567890', summary: 'Add feature', releases: [] },
+        { id: 'changeset-2', commit: 'def1234567890', summary: 'Fix bug', releases: [] },
+        { id: 'changeset-3', summary: 'Unrelated', releases: [] },
+      ]
+      const dependencies = [
+        createDependency('pkg-1', ['changeset-1']),
+        createDependency('pkg-2', ['changeset-1', 'changeset-2']),
+        createDependency('pkg-3', ['changeset-4']),
+      ]
+
+      expect(formatDependencyBlocksByChangeset(changesets, dependencies, { ...options, dependencies: { linkPrs: true } }, repository)).toBe([
+        '- Updated dependencies [[#12](https://github.com/owner/repo/pull/12)]:',
+        '  - pkg-1@2.0.0',
+        '  - pkg-2@2.0.0',
+        '- Updated dependencies [[`def1234`](https://github.com/owner/repo/commit/def1234567890)]:',
+        '  - pkg-2@2.0.0',
+        '- Updated dependencies:',
+        '  - pkg-3@2.0.0',
+      ].join('\n'))
+    })
+  })
+})
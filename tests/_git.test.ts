@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { findChangesetCommit, findCommit, findMergeCommit, getChangedFiles, getCommitUrlOverride, getMergeCommitIndex, getMergedCommitShas, isReachableFromDefaultBranch, resolveChangesetCommit } from '../src/_git'
+import { clearUnresolvedChangesets, getUnresolvedChangesets } from '../src/_report'
+import { createFakeRepository } from './__fixtures__/repository'
+
+/**
+ * main:    base ── main-1 ── merge-1 ── squash ── merge-2 (HEAD)
+ *            \               /                   /
+ * feature-1:  feat-1 ── feat-2                  /
+ *                                              /
+ * feature-2:                      feat-3 ─────
+ */
+const commits = {
+  'base': { parents: [], message: 'Initial commit' },
+  'main-1': { parents: ['base'], message: 'Direct commit on main' },
+  'feat-1': { parents: ['base'], message: 'First feature commit' },
+  'feat-2': { parents: ['feat-1'], message: 'Second feature commit' },
+  'merge-1': { parents: ['main-1', 'feat-2'], message: 'Merge pull request #12 from org/feature-1' },
+  'squash': { parents: ['merge-1'], message: 'Squashed feature (#13)' },
+  'feat-3': { parents: ['merge-1'], message: 'Third feature commit' },
+  'merge-2': { parents: ['squash', 'feat-3'], message: 'Merge branch \'feature-2\' into \'main\'\n\nSee merge request group/project!14' },
+}
+
+const repository = createFakeRepository(commits, 'merge-2')
+
+describe('_git', () => {
+  describe('getMergedCommitShas', () => {
+    it('returns the commits brought in by a merge commit', () => {
+      expect(getMergedCommitShas(repository, repository.findCommit('merge-1')!).sort()).toEqual(['feat-1', 'feat-2'])
+      expect(getMergedCommitShas(repository, repository.findCommit('merge-2')!)).toEqual(['feat-3'])
+    })
+
+    it('returns an empty array for regular commits', () => {
+      expect(getMergedCommitShas(repository, repository.findCommit('squash')!)).toEqual([])
+    })
+  })
+
+  describe('findMergeCommit', () => {
+    it('finds the merge commit for a commit on a merged branch', () => {
+      expect(findMergeCommit(repository, 'feat-1')?.id()).toBe('merge-1')
+      expect(findMergeCommit(repository, 'feat-2')?.id()).toBe('merge-1')
+      expect(findMergeCommit(repository, 'feat-3')?.id()).toBe('merge-2')
+    })
+
+    it('collects the commits of every merge commit only once', () => {
+      const repository = createFakeRepository(commits, 'merge-2')
+      findMergeCommit(repository, 'feat-1')
+      const revWalkSpy = vi.spyOn(repository, 'revWalk')
+
+      expect(findMergeCommit(repository, 'feat-2')?.id()).toBe('merge-1')
+      // Only the first-parent history is walked again
+      expect(revWalkSpy).toHaveBeenCalledOnce()
+    })
+
+    it('returns undefined for commits in the first-parent history', () => {
+      expect(findMergeCommit(repository, 'main-1')).toBe(undefined)
+      expect(findMergeCommit(repository, 'squash')).toBe(undefined)
+      expect(findMergeCommit(repository, 'merge-2')).toBe(undefined)
+    })
+  })
+
+  describe('findCommit', () => {
+    it('looks up every commit only once', () => {
+      const repository = createFakeRepository(commits, 'merge-2')
+      const findCommitSpy = vi.spyOn(repository, 'findCommit')
+
+      expect(findCommit(repository, 'feat-1')?.id()).toBe('feat-1')
+      expect(findCommit(repository, 'feat-1')?.id()).toBe('feat-1')
+      expect(findCommit(repository, 'unknown')).toBe(null)
+      expect(findCommit(repository, 'unknown')).toBe(null)
+      expect(findCommitSpy).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('getMergeCommitIndex', () => {
+    it('maps merged commits to their merge commit', () => {
+      const repository = createFakeRepository(commits, 'merge-2')
+
+      expect(Object.fromEntries(getMergeCommitIndex(repository))).toEqual({
+        'feat-1': 'merge-1',
+        'feat-2': 'merge-1',
+        'feat-3': 'merge-2',
+      })
+    })
+  })
+
+  describe('findMergeCommit with prefetch', () => {
+    it('uses the merge commit index', () => {
+      const repository = createFakeRepository(commits, 'merge-2')
+
+      expect(findMergeCommit(repository, 'feat-1', true)?.id()).toBe('merge-1')
+      expect(findMergeCommit(repository, 'feat-3', true)?.id()).toBe('merge-2')
+      expect(findMergeCommit(repository, 'squash', true)).toBe(undefined)
+    })
+
+    it('builds the index only once', () => {
+      const repository = createFakeRepository(commits, 'merge-2')
+      findMergeCommit(repository, 'feat-1', true)
+      const revWalkSpy = vi.spyOn(repository, 'revWalk')
+      findMergeCommit(repository, 'feat-2', true)
+      findMergeCommit(repository, 'feat-1', true)
+
+      expect(revWalkSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('shallow clones', () => {
+    /**
+     * The history starts at "boundary", its parent wasn't fetched
+     */
+    const shallowCommits = {
+      'boundary': { parents: ['not-fetched'], message: 'Old commit', files: ['.changeset/old-changeset.md'] },
+      'add-changeset': { parents: ['boundary'], message: 'Add feature (#21)', files: ['.changeset/old-changeset.md', '.changeset/brave-lions.md'] },
+      'head': { parents: ['add-changeset'], message: 'Unrelated commit', files: ['.changeset/old-changeset.md', '.changeset/brave-lions.md'] },
+    }
+
+    beforeEach(() => {
+      clearUnresolvedChangesets()
+    })
+
+    it('finds the commit that added the changeset file', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+
+      expect(findChangesetCommit(repository, 'brave-lions')?.id()).toBe('add-changeset')
+    })
+
+    it('walks the history only once for all changesets', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+      findChangesetCommit(repository, 'brave-lions')
+      const revWalkSpy = vi.spyOn(repository, 'revWalk')
+
+      expect(findChangesetCommit(repository, 'brave-lions')?.id()).toBe('add-changeset')
+      expect(findChangesetCommit(repository, 'old-changeset')).toBe(undefined)
+      expect(revWalkSpy).not.toHaveBeenCalled()
+    })
+
+    it('doesn\'t guess if the file was added before the shallow history', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+
+      expect(findChangesetCommit(repository, 'old-changeset')).toBe(undefined)
+      expect(findChangesetCommit(repository, 'unknown')).toBe(undefined)
+    })
+
+    it('recovers commits that are missing from the shallow history', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+      const changeset = { id: 'brave-lions', summary: 'Add feature', commit: 'not-fetched', releases: [] }
+
+      expect(resolveChangesetCommit(repository, changeset)?.id()).toBe('add-changeset')
+      expect(resolveChangesetCommit(repository, { ...changeset, commit: undefined })?.id()).toBe('add-changeset')
+      expect(getUnresolvedChangesets()).toEqual([])
+    })
+
+    it('doesn\'t replace a commit from the summary', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+      const changeset = { id: 'brave-lions', summary: 'Add feature\n\ncommit: not-fetched', releases: [] }
+
+      expect(resolveChangesetCommit(repository, changeset)).toBe(undefined)
+      expect(getUnresolvedChangesets()).toEqual([
+        { id: 'brave-lions', commit: 'not-fetched', reason: 'commit-not-found', message: 'The commit isn\'t part of the local git history' },
+      ])
+    })
+
+    it('reports changesets that can\'t be resolved', () => {
+      const repository = createFakeRepository(shallowCommits, 'head', { shallow: true })
+
+      resolveChangesetCommit(repository, { id: 'old-changeset', summary: 'Old', releases: [] })
+      resolveChangesetCommit(repository, { id: 'old-changeset', summary: 'Old', releases: [] })
+
+      expect(getUnresolvedChangesets()).toEqual([
+        { id: 'old-changeset', reason: 'missing-commit', message: 'The changeset has no commit and the commit that added it couldn\'t be found' },
+      ])
+    })
+  })
+
+  describe('default branch', () => {
+    // "feature-2" isn't merged yet, HEAD is its tip
+    const options = { repo: 'owner/repo', defaultBranch: 'main' }
+    const refs = { 'refs/remotes/origin/main': 'squash', 'refs/heads/main': 'merge-2' }
+
+    it('checks if a commit is reachable from the remote-tracking branch', () => {
+      const repository = createFakeRepository(commits, 'merge-2', { refs })
+
+      expect(isReachableFromDefaultBranch(repository, 'feat-1', options)).toBe(true)
+      expect(isReachableFromDefaultBranch(repository, 'squash', options)).toBe(true)
+      expect(isReachableFromDefaultBranch(repository, 'feat-3', options)).toBe(false)
+      expect(isReachableFromDefaultBranch(repository, 'feat-3', { ...options, defaultBranch: undefined })).toBe(true)
+    })
+
+    it('falls back to the local branch', () => {
+      const repository = createFakeRepository(commits, 'merge-2', { refs: { 'refs/heads/main': 'squash' } })
+
+      expect(isReachableFromDefaultBranch(repository, 'feat-3', options)).toBe(false)
+      expect(isReachableFromDefaultBranch(repository, 'feat-3', { ...options, remote: 'upstream' })).toBe(false)
+    })
+
+    it('treats all commits as reachable if the branch doesn\'t exist', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const repository = createFakeRepository(commits, 'merge-2')
+
+      expect(isReachableFromDefaultBranch(repository, 'feat-3', options)).toBe(true)
+      expect(isReachableFromDefaultBranch(repository, 'feat-2', options)).toBe(true)
+      expect(warn).toHaveBeenCalledOnce()
+      expect(warn).toHaveBeenCalledWith('Couldn\'t find the default branch "main", so all commits are linked.')
+
+      warn.mockRestore()
+    })
+
+    it('returns the URL for unreachable commits', () => {
+      const repository = createFakeRepository(commits, 'merge-2', { refs, branch: 'feature-2' })
+
+      expect(getCommitUrlOverride(repository, 'squash', { ...options, unreachableCommits: 'branch' })).toBe(undefined)
+      expect(getCommitUrlOverride(repository, 'feat-3', options)).toBe(null)
+      expect(getCommitUrlOverride(repository, 'feat-3', { ...options, unreachableCommits: 'mark' })).toBe(null)
+      expect(getCommitUrlOverride(repository, 'feat-3', { ...options, unreachableCommits: 'branch' })).toBe('https://github.com/owner/repo/tree/feature-2')
+      expect(getCommitUrlOverride(createFakeRepository(commits, 'merge-2', { refs, branch: null }), 'feat-3', { ...options, unreachableCommits: 'branch' })).toBe(null)
+    })
+  })
+
+  describe('getChangedFiles', () => {
+    const changedCommits = {
+      base: { parents: [], message: 'Initial commit', contents: { 'README.md': 'Hello', 'src/index.ts': 'export {}', 'tooling/release.ts': 'v1' } },
+      tooling: { parents: ['base'], message: 'ci: Update release script', contents: { 'README.md': 'Hello', 'src/index.ts': 'export {}', 'tooling/release.ts': 'v2', '.changeset/brave-lions.md': 'Update release script' } },
+      removal: { parents: ['tooling'], message: 'Remove README', contents: { 'src/index.ts': 'export {}', 'tooling/release.ts': 'v2' } },
+    }
+
+    it('returns the added, modified and removed files', () => {
+      const repository = createFakeRepository(changedCommits, 'removal')
+
+      expect(getChangedFiles(repository, findCommit(repository, 'tooling')!)).toEqual(['.changeset/brave-lions.md', 'tooling/release.ts'])
+      expect(getChangedFiles(repository, findCommit(repository, 'removal')!)).toEqual(['.changeset/brave-lions.md', 'README.md'])
+    })
+
+    it('returns all files of a root commit', () => {
+      const repository = createFakeRepository(changedCommits, 'removal')
+
+      expect(getChangedFiles(repository, findCommit(repository, 'base')!)).toEqual(['README.md', 'src/index.ts', 'tooling/release.ts'])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { ValidOptions } from '../src/types'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { formatInternalReleaseLine, globToRegExp, isInternalChange } from '../src/_internal'
+import { clearUnresolvedChangesets } from '../src/_report'
+import { resolveChangeset } from '../src/_resolve'
+import { createFakeRepository } from './__fixtures__/repository'
+
+const commits = {
+  base: { parents: [], message: 'Initial commit', contents: { 'src/index.ts': 'v1', 'tooling/release.ts': 'v1' } },
+  tooling: { parents: ['base'], message: 'Update release script', contents: { 'src/index.ts': 'v1', 'tooling/release.ts': 'v2', '.changeset/brave-lions.md': '' } },
+  feature: { parents: ['tooling'], message: 'ci(release): Add feature', contents: { 'src/index.ts': 'v2', 'tooling/release.ts': 'v3' } },
+}
+
+function isInternal(summary: string, commit: string, options: ValidOptions) {
+  const repository = createFakeRepository(commits, 'feature')
+  const changeset: NewChangesetWithCommit = { id: 'brave-lions', summary, commit, releases: [{ name: 'pkg', type: 'patch' }] }
+
+  return isInternalChange(repository, resolveChangeset(repository, changeset, options), options)
+}
+
+describe('_internal', () => {
+  beforeEach(() => {
+    clearUnresolvedChangesets()
+  })
+
+  describe('globToRegExp', () => {
+    it('matches paths relative to the root of the repository', () => {
+      expect(globToRegExp('tooling/**').test('tooling/scripts/release.ts')).toBe(true)
+      expect(globToRegExp('tooling/').test('tooling/release.ts')).toBe(true)
+      expect(globToRegExp('tooling/*.ts').test('tooling/scripts/release.ts')).toBe(false)
+      expect(globToRegExp('*.md').test('docs/guide.md')).toBe(false)
+      expect(globToRegExp('*.md').test('README.md')).toBe(true)
+      expect(globToRegExp('file?.ts').test('file1.ts')).toBe(true)
+    })
+
+    it('matches any number of directories with "**/"', () => {
+      expect(globToRegExp('**/*.test.ts').test('index.test.ts')).toBe(true)
+      expect(globToRegExp('**/*.test.ts').test('packages/core/index.test.ts')).toBe(true)
+      expect(globToRegExp('**/*.test.ts').test('packages/core/index-test.ts')).toBe(false)
+    })
+  })
+
+  describe('isInternalChange', () => {
+    it('returns false without the option', () => {
+      expect(isInternal('Update release script\ninternal: true', 'tooling', { repo: 'owner/repo' })).toBe(false)
+    })
+
+    it('detects the marker', () => {
+      expect(isInternal('Update release script\ninternal: true', 'tooling', { repo: 'owner/repo', internalChanges: {} })).toBe(true)
+      expect(isInternal('Update release script\ninternal: true', 'tooling', { repo: 'owner/repo', internalChanges: { marker: false } })).toBe(false)
+    })
+
+    it('detects the scopes', () => {
+      const options: ValidOptions = { repo: 'owner/repo', internalChanges: { scopes: ['release'] } }
+
+      expect(isInternal('Add feature', 'feature', options)).toBe(true)
+      expect(isInternal('feat(api): Add feature', 'feature', options)).toBe(false)
+    })
+
+    it('detects commits that only changed internal files', () => {
+      const options: ValidOptions = { repo: 'owner/repo', internalChanges: { paths: ['tooling/**'] } }
+
+      expect(isInternal('Update release script', 'tooling', options)).toBe(true)
+      expect(isInternal('Add feature', 'feature', options)).toBe(false)
+      expect(isInternal('Add feature', 'unknown', options)).toBe(false)
+    })
+  })
+
+  describe('formatInternalReleaseLine', () => {
+    it('collapses the release line', () => {
+      expect(formatInternalReleaseLine('Update release script', ['With details'])).toBe('\n- <details><summary>Internal</summary>\n\n  Update release script\n  With details\n\n  </details>\n')
+    })
+  })
+})
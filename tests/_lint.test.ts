@@ -0,0 +1,114 @@
+import type { ChangesetWithId } from '../src/_changesets'
+import type { LintResult } from '../src/types'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { formatLintResult, getOverrideProblems, lintChangeset } from '../src/_lint'
+import { createTempDirectory, removeTempDirectory, writeFile } from './__fixtures__/directory'
+import { createFakeRepository } from './__fixtures__/repository'
+
+const options = { repo: 'owner/repo' } as const
+
+const repository = createFakeRepository({
+  base1234567890: { parents: [], message: 'Initial commit' },
+  abc1234567890: { parents: ['base1234567890'], message: 'Add feature (#12)', files: ['.changeset/brave-lions.md'] },
+  def1234567890: { parents: ['abc1234567890'], message: 'Fix bug', files: ['.changeset/brave-lions.md', '.changeset/quiet-owls.md'] },
+}, 'def1234567890')
+
+function createChangeset(id: string, summary: string): { changeset: ChangesetWithId, content: string } {
+  return {
+    changeset: { id, summary, releases: [{ name: 'pkg', type: 'patch' }] },
+    content: `---\n"pkg": patch\n---\n\n${summary}\n`,
+  }
+}
+
+describe('_lint', () => {
+  describe('getOverrideProblems', () => {
+    it('accepts well formed override lines', () => {
+      expect(getOverrideProblems('---\n"pkg": patch\n---\n\nFix bug\n\npr: #12\ncommit: abc1234')).toEqual([])
+      expect(getOverrideProblems('Fix bug\n\npull request: 12')).toEqual([])
+      expect(getOverrideProblems('PR: #123 Add new feature\ncommit: abc1234 (backport)')).toEqual([])
+    })
+
+    it('reports malformed and repeated override lines', () => {
+      expect(getOverrideProblems('---\n"pkg": patch\n---\n\nFix bug\n\npr: next\ncommit: main\ncommit: abc1234')).toEqual([
+        { rule: 'invalid-override', message: 'The "pr:" line must contain a PR number, e.g. "pr: #123"', line: 7 },
+        { rule: 'invalid-override', message: 'The "commit:" line must contain a commit SHA with at least 7 characters, e.g. "commit: a1b2c3d"', line: 8 },
+        { rule: 'invalid-override', message: 'Only the first "commit:" line is used. Remove the other ones', line: 9 },
+      ])
+    })
+  })
+
+  describe('lintChangeset', () => {
+    it('passes for changesets with a PR reference', () => {
+      const { changeset, content } = createChangeset('brave-lions', 'Add feature')
+
+      expect(lintChangeset(changeset, content, repository, options)).toEqual({
+        id: 'brave-lions',
+        file: '.changeset/brave-lions.md',
+        commit: 'abc1234567890',
+        pr: 12,
+        problems: [],
+      })
+    })
+
+    it('reports commits without a PR reference', () => {
+      const { changeset, content } = createChangeset('quiet-owls', 'Fix bug')
+
+      expect(lintChangeset(changeset, content, repository, options).problems).toEqual([
+        { rule: 'missing-pr', message: 'The commit def1234 doesn\'t reference a PR, so the changelog would only link the commit. Use a PR number in the commit subject or add a "pr:" line', line: 1 },
+      ])
+    })
+
+    it('accepts a PR number from a "pr:" line', () => {
+      const { changeset, content } = createChangeset('quiet-owls', 'Fix bug\n\npr: 13')
+
+      expect(lintChangeset(changeset, content, repository, options)).toMatchObject({ commit: 'def1234567890', pr: 13, problems: [] })
+    })
+
+    it('accepts a PR from the metadata file', () => {
+      const dir = createTempDirectory('changelog-lint-')
+      const metadataFile = path.join(dir, 'prs.ndjson')
+      writeFile(dir, 'prs.ndjson', `${JSON.stringify({ number: 77, commits: [{ oid: 'def1234567890' }] })}\n`)
+      const { changeset, content } = createChangeset('quiet-owls', 'Fix bug')
+
+      expect(lintChangeset(changeset, content, repository, { ...options, metadataFile })).toMatchObject({ commit: 'def1234567890', pr: 77, problems: [] })
+
+      removeTempDirectory(dir)
+    })
+
+    it('reports changesets that don\'t resolve to a commit', () => {
+      const uncommitted = createChangeset('hungry-cats', 'Add cats')
+      const unknownCommit = createChangeset('brave-lions', 'Add feature\n\ncommit: fff1234')
+
+      expect(lintChangeset(uncommitted.changeset, uncommitted.content, repository, options).problems).toEqual([
+        { rule: 'missing-commit', message: 'The changeset isn\'t committed yet or the commit that added it isn\'t part of the local git history', line: 1 },
+      ])
+      expect(lintChangeset(unknownCommit.changeset, unknownCommit.content, repository, options).problems).toEqual([
+        { rule: 'missing-commit', message: 'The commit fff1234 from the "commit:" line isn\'t part of the local git history', line: 1 },
+      ])
+    })
+  })
+
+  describe('formatLintResult', () => {
+    const result: LintResult = {
+      changesets: [
+        { id: 'brave-lions', file: '.changeset/brave-lions.md', commit: 'abc1234567890', pr: 12, problems: [] },
+        { id: 'quiet-owls', file: '.changeset/quiet-owls.md', commit: 'def1234567890', problems: [{ rule: 'missing-pr', message: 'No PR\n100%', line: 1 }] },
+      ],
+      problemCount: 1,
+    }
+
+    it('formats the result as text', () => {
+      expect(formatLintResult(result, 'text')).toBe('.changeset/quiet-owls.md:1 missing-pr: No PR\n100%\nFound 1 problem in 2 changesets.')
+      expect(formatLintResult({ changesets: [result.changesets[0]], problemCount: 0 }, 'text')).toBe('No problems found in 1 changeset.')
+    })
+
+    it('formats the result as JSON', () => {
+      expect(JSON.parse(formatLintResult(result, 'json'))).toEqual(result)
+    })
+
+    it('formats the result as GitHub Actions annotations', () => {
+      expect(formatLintResult(result, 'github')).toBe('::error file=.changeset/quiet-owls.md,line=1,title=missing-pr::No PR%0A100%25')
+    })
+  })
+})
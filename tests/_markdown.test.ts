@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { formatSummaryBody, formatSummaryTitle, replaceInText } from '../src/_markdown'
+
+const upperCase = (text: string) => text.toUpperCase()
+
+describe('_markdown', () => {
+  describe('replaceInText', () => {
+    it('replaces plain text', () => {
+      expect(replaceInText('fix a bug\nand another one', upperCase)).toBe('FIX A BUG\nAND ANOTHER ONE')
+    })
+
+    it('leaves code spans untouched', () => {
+      expect(replaceInText('use `foo` and ``b`ar``', upperCase)).toBe('USE `foo` AND ``b`ar``')
+    })
+
+    it('leaves links, images, autolinks and URLs untouched', () => {
+      expect(replaceInText('see [docs](https://example.com) and ![img](a.png)', upperCase)).toBe('SEE [docs](https://example.com) AND ![img](a.png)')
+      expect(replaceInText('see [docs][ref] and <https://example.com>', upperCase)).toBe('SEE [docs][ref] AND <https://example.com>')
+      expect(replaceInText('see https://example.com/a#b now', upperCase)).toBe('SEE https://example.com/a#b NOW')
+    })
+
+    it('leaves fenced code blocks untouched', () => {
+      const input = 'before\n```js\nconst a = 1\n```\nafter\n~~~~\ncode\n~~~\nstill code\n~~~~\nend'
+      expect(replaceInText(input, upperCase)).toBe('BEFORE\n```js\nconst a = 1\n```\nAFTER\n~~~~\ncode\n~~~\nstill code\n~~~~\nEND')
+    })
+
+    it('leaves unclosed fenced code blocks untouched', () => {
+      expect(replaceInText('before\n```\ncode', upperCase)).toBe('BEFORE\n```\ncode')
+    })
+  })
+
+  describe('formatSummaryTitle', () => {
+    it('removes the heading marker', () => {
+      expect(formatSummaryTitle('## Add feature')).toBe('Add feature')
+      expect(formatSummaryTitle('#123 is fixed')).toBe('#123 is fixed')
+    })
+  })
+
+  describe('formatSummaryBody', () => {
+    it('indents the lines without adding trailing whitespace', () => {
+      expect(formatSummaryBody(['', 'More details', '', '- Item', '  - Nested item'])).toEqual(['', '  More details', '', '  - Item', '    - Nested item'])
+    })
+
+    it('keeps fenced code blocks intact', () => {
+      expect(formatSummaryBody(['```md', '# Not a heading', '', '```', '# Heading'])).toEqual(['  ```md', '  # Not a heading', '', '  ```', '  #### Heading'])
+    })
+
+    it('shifts the headings below the headings of the changelog', () => {
+      expect(formatSummaryBody(['# Usage', '## Options', '###### Details'])).toEqual(['  #### Usage', '  ##### Options', '  ###### Details'])
+      expect(formatSummaryBody(['#### Usage', '##### Options'])).toEqual(['  #### Usage', '  ##### Options'])
+    })
+
+    it('turns setext headings into ATX headings', () => {
+      expect(formatSummaryBody(['', 'Usage', '=====', '', 'Options', '---'])).toEqual(['', '  #### Usage', '', '  ##### Options'])
+      expect(formatSummaryBody(['- Item', '---'])).toEqual(['  - Item', '  ---'])
+      expect(formatSummaryBody(['Two lines', 'of text', '---'])).toEqual(['  Two lines', '  of text', '  ---'])
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { clearMetadataCache, findPullRequestMetadata, getMetadataIndex, normalizeMetadata, parseMetadataFile } from '../src/_metadata'
+
+const ghEntry = {
+  number: 12,
+  title: 'feat: Add feature',
+  author: { login: 'octocat', name: 'The Octocat', is_bot: false },
+  labels: [{ id: 'LA_1', name: 'feature', color: 'a2eeef' }],
+  mergedBy: { login: 'hubot' },
+  mergeCommit: { oid: 'merge1234567890' },
+  commits: [{ oid: 'abc1234567890', messageHeadline: 'Add feature' }],
+}
+
+describe('_metadata', () => {
+  describe('normalizeMetadata', () => {
+    it('supports the output of "gh pr list --json"', () => {
+      expect(normalizeMetadata(ghEntry)).toEqual({
+        number: 12,
+        title: 'feat: Add feature',
+        author: 'octocat',
+        labels: ['feature'],
+        mergedBy: 'hubot',
+        commits: ['abc1234567890', 'merge1234567890'],
+      })
+    })
+
+    it('supports plain values', () => {
+      expect(normalizeMetadata({ number: 12, author: 'octocat', labels: ['feature'], commits: ['abc1234567890'], mergeCommit: 'merge1234567890' })).toEqual({
+        number: 12,
+        title: undefined,
+        author: 'octocat',
+        labels: ['feature'],
+        mergedBy: undefined,
+        commits: ['abc1234567890', 'merge1234567890'],
+      })
+    })
+
+    it('throws without a PR number', () => {
+      expect(() => normalizeMetadata({ title: 'Add feature' })).toThrow('Every entry needs a PR number')
+      expect(() => normalizeMetadata({ number: '12' })).toThrow('Every entry needs a PR number')
+    })
+  })
+
+  describe('parseMetadataFile', () => {
+    it('parses a JSON array', () => {
+      expect(parseMetadataFile(JSON.stringify([{ number: 12 }, { number: 13 }]), 'prs.json').map(pr => pr.number)).toEqual([12, 13])
+    })
+
+    it('parses NDJSON', () => {
+      expect(parseMetadataFile('{"number":12}\n\n{"number":13}\n', 'prs.ndjson').map(pr => pr.number)).toEqual([12, 13])
+      expect(parseMetadataFile('{"number":12}', 'prs.ndjson').map(pr => pr.number)).toEqual([12])
+    })
+
+    it('returns an empty array for an empty file', () => {
+      expect(parseMetadataFile('\n', 'prs.json')).toEqual([])
+    })
+
+    it('throws for invalid lines', () => {
+      expect(() => parseMetadataFile('{"number":12}\n{"number":', 'prs.ndjson')).toThrow('Couldn\'t parse line 2 of the metadata file "prs.ndjson"')
+    })
+  })
+
+  describe('getMetadataIndex', () => {
+    let cwd: string
+
+    beforeEach(() => {
+      clearMetadataCache()
+      cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'changelog-metadata-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(cwd, { recursive: true, force: true })
+    })
+
+    it('indexes the PRs by number and commit', () => {
+      fs.writeFileSync(path.join(cwd, 'prs.json'), JSON.stringify([ghEntry]))
+
+      const index = getMetadataIndex(cwd, { repo: 'owner/repo', metadataFile: 'prs.json' })
+
+      expect(index?.pullRequests.get(12)?.title).toBe('feat: Add feature')
+      expect(index?.commits.get('abc1234567890')?.number).toBe(12)
+      expect(index?.commits.get('merge1234567890')?.number).toBe(12)
+    })
+
+    it('returns undefined without the option or the file', () => {
+      expect(getMetadataIndex(cwd, { repo: 'owner/repo' })).toBe(undefined)
+      expect(getMetadataIndex(cwd, { repo: 'owner/repo', metadataFile: 'prs.json' })).toBe(undefined)
+    })
+  })
+
+  describe('findPullRequestMetadata', () => {
+    const pullRequest = normalizeMetadata(ghEntry)
+    const index = { pullRequests: new Map([[12, pullRequest]]), commits: new Map(pullRequest.commits.map(sha => [sha, pullRequest])) }
+
+    it('finds the PR by its number', () => {
+      expect(findPullRequestMetadata(index, 12, [])).toBe(pullRequest)
+      expect(findPullRequestMetadata(index, 13, ['abc1234567890'])).toBe(undefined)
+    })
+
+    it('finds the PR by the SHAs of its commits', () => {
+      expect(findPullRequestMetadata(index, undefined, [undefined, 'abc1234567890'])).toBe(pullRequest)
+      expect(findPullRequestMetadata(index, undefined, ['fff1234567890'])).toBe(undefined)
+      expect(findPullRequestMetadata(undefined, 12, [])).toBe(undefined)
+    })
+  })
+})
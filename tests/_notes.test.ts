@@ -0,0 +1,136 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { ValidOptions } from '../src/types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearReleaseVersionsCache, createReleaseNote, getReleaseNotesPath, getReleaseVersions, recordReleaseNote } from '../src/_notes'
+import { createTempDirectory, removeTempDirectory, writeFile } from './__fixtures__/directory'
+
+const options: ValidOptions = { repo: 'owner/repo', releaseNotes: true }
+
+const changeset: NewChangesetWithCommit = {
+  id: 'brave-lions',
+  summary: 'Add feature',
+  commit: 'abc1234567890',
+  releases: [{ name: 'core', type: 'minor' }, { name: 'docs', type: 'none' }],
+}
+
+describe('_notes', () => {
+  let cwd: string
+
+  beforeEach(() => {
+    clearReleaseVersionsCache()
+    cwd = createTempDirectory('changelog-notes-')
+    writeFile(cwd, 'package.json', JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }))
+    writeFile(cwd, 'packages/core/package.json', JSON.stringify({ name: 'core', version: '1.0.0' }))
+    writeFile(cwd, 'packages/utils/package.json', JSON.stringify({ name: 'utils', version: '0.1.0', dependencies: { core: 'workspace:*' } }))
+    writeFile(cwd, '.changeset/config.json', JSON.stringify({ changelog: false }))
+    writeFile(cwd, '.changeset/brave-lions.md', '---\n"core": minor\n---\n\nAdd feature\n')
+  })
+
+  afterEach(() => {
+    removeTempDirectory(cwd)
+  })
+
+  describe('getReleaseVersions', () => {
+    it('returns the new versions of the release plan', async () => {
+      expect(await getReleaseVersions(cwd)).toEqual(new Map([['core', '1.1.0'], ['utils', '0.1.1']]))
+    })
+
+    it('uses the prerelease versions in pre mode', async () => {
+      writeFile(cwd, '.changeset/pre.json', JSON.stringify({ mode: 'pre', tag: 'beta', initialVersions: { core: '1.0.0', utils: '0.1.0' }, changesets: [] }))
+
+      expect((await getReleaseVersions(cwd)).get('core')).toBe('1.1.0-beta.0')
+    })
+
+    it('warns and returns an empty map if the release plan can\'t be assembled', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      writeFile(cwd, '.changeset/quiet-owls.md', '---\n"unknown": patch\n---\n\nFix bug\n')
+
+      expect(await getReleaseVersions(cwd)).toEqual(new Map())
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Couldn\'t assemble the release plan, so no release notes are recorded'))
+
+      warn.mockRestore()
+    })
+  })
+
+  describe('getReleaseNotesPath', () => {
+    it('uses "release-notes.json" by default', () => {
+      expect(getReleaseNotesPath('/repo', options)).toBe(path.resolve('/repo', 'release-notes.json'))
+    })
+
+    it('uses the configured path', () => {
+      expect(getReleaseNotesPath('/repo', { ...options, releaseNotes: 'docs/releases.json' })).toBe(path.resolve('/repo', 'docs/releases.json'))
+    })
+  })
+
+  describe('createReleaseNote', () => {
+    it('adds the URLs', () => {
+      expect(createReleaseNote('brave-lions', 'minor', { summary: 'Add feature', pr: 12, commit: 'abc1234567890', authors: ['octocat'] }, options)).toEqual({
+        changeset: 'brave-lions',
+        type: 'minor',
+        summary: 'Add feature',
+        pr: 12,
+        commit: 'abc1234567890',
+        authors: ['octocat'],
+        urls: {
+          pr: 'https://github.com/owner/repo/pull/12',
+          commit: 'https://github.com/owner/repo/commit/abc1234567890',
+          authors: ['https://github.com/octocat'],
+        },
+      })
+    })
+
+    it('uses the commit URL of the release line', () => {
+      const data = { summary: 'Add feature', commit: 'abc1234567890', authors: [] }
+
+      expect(createReleaseNote('brave-lions', 'minor', data, options, 'https://github.com/owner/mirror/commit/abc1234567890').urls.commit).toBe('https://github.com/owner/mirror/commit/abc1234567890')
+      expect(createReleaseNote('brave-lions', 'minor', data, options, null).urls.commit).toBeUndefined()
+    })
+  })
+
+  describe('recordReleaseNote', () => {
+    const readReleaseNotes = (file = 'release-notes.json') => JSON.parse(fs.readFileSync(path.join(cwd, file), 'utf8'))
+
+    it('records the note for every released package', async () => {
+      await recordReleaseNote(cwd, changeset, { summary: 'Add feature', pr: 12, commit: 'abc1234567890', authors: [] }, options)
+
+      expect(readReleaseNotes()).toEqual({
+        core: {
+          '1.1.0': [{
+            changeset: 'brave-lions',
+            type: 'minor',
+            summary: 'Add feature',
+            pr: 12,
+            commit: 'abc1234567890',
+            authors: [],
+            urls: { pr: 'https://github.com/owner/repo/pull/12', commit: 'https://github.com/owner/repo/commit/abc1234567890', authors: [] },
+          }],
+        },
+      })
+    })
+
+    it('keeps existing notes and replaces the note of the same changeset', async () => {
+      writeFile(cwd, 'docs/releases.json', JSON.stringify({ core: { '1.0.0': [{ changeset: 'old-owls' }], '1.1.0': [{ changeset: 'brave-lions' }, { changeset: 'quiet-cats' }] } }))
+
+      await recordReleaseNote(cwd, changeset, { summary: 'Add feature', authors: [] }, { ...options, releaseNotes: 'docs/releases.json' })
+
+      const releaseNotes = readReleaseNotes('docs/releases.json')
+
+      expect(releaseNotes.core['1.0.0']).toEqual([{ changeset: 'old-owls' }])
+      expect(releaseNotes.core['1.1.0'].map((note: { changeset: string }) => note.changeset)).toEqual(['quiet-cats', 'brave-lions'])
+    })
+
+    it('throws for an invalid release notes file', async () => {
+      writeFile(cwd, 'release-notes.json', '{ "core": ')
+
+      await expect(recordReleaseNote(cwd, changeset, { summary: 'Add feature', authors: [] }, options)).rejects.toThrow(`Couldn't parse the release notes file "${path.join(cwd, 'release-notes.json')}"`)
+    })
+
+    it('skips packages without a new version', async () => {
+      await recordReleaseNote(cwd, { ...changeset, releases: [{ name: 'unknown', type: 'patch' }] }, { summary: 'Fix bug', authors: [] }, options)
+
+      expect(fs.existsSync(path.join(cwd, 'release-notes.json'))).toBe(false)
+    })
+  })
+})
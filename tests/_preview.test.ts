@@ -0,0 +1,49 @@
+import type { ModCompWithPackage, NewChangesetWithCommit } from '@changesets/types'
+import type { DependencyConfig } from '../src/_workspace'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderChangelogEntry } from '../src/_preview'
+import { clearUnresolvedChangesets } from '../src/_report'
+import { clearRepositoryCache } from '../src/_utils'
+import { createFakeRepository } from './__fixtures__/repository'
+
+vi.mock('@napi-rs/simple-git', () => ({
+  Repository: {
+    discover: vi.fn(() => createFakeRepository({
+      base1234567890: { parents: [], message: 'Initial commit' },
+      abc1234567890: { parents: ['base1234567890'], message: 'Add feature (#12)' },
+      def1234567890: { parents: ['abc1234567890'], message: 'Fix bug (#13)' },
+    }, 'def1234567890')),
+  },
+}))
+
+const config: DependencyConfig = { updateInternalDependencies: 'patch', ___experimentalUnsafeOptions_WILL_CHANGE_IN_PATCH: { onlyUpdatePeerDependentsWhenOutOfRange: false } }
+const changelogOptions = { repo: 'owner/repo' }
+
+const changesets: NewChangesetWithCommit[] = [
+  { id: 'brave-lions', summary: 'Add feature', commit: 'abc1234567890', releases: [{ name: 'core', type: 'minor' }] },
+  { id: 'quiet-owls', summary: 'Fix bug', commit: 'def1234567890', releases: [{ name: 'core', type: 'patch' }, { name: 'docs', type: 'none' }] },
+]
+
+const core: ModCompWithPackage = { name: 'core', type: 'minor', oldVersion: '1.0.0', newVersion: '1.1.0', changesets: ['brave-lions', 'quiet-owls'], dir: 'packages/core', packageJson: { name: 'core', version: '1.0.0' } }
+const utils: ModCompWithPackage = { name: 'utils', type: 'patch', oldVersion: '0.1.0', newVersion: '0.1.1', changesets: [], dir: 'packages/utils', packageJson: { name: 'utils', version: '0.1.0', dependencies: { core: 'workspace:*' } } }
+
+describe('_preview', () => {
+  beforeEach(() => {
+    clearRepositoryCache()
+    clearUnresolvedChangesets()
+  })
+
+  describe('renderChangelogEntry', () => {
+    it('groups the release lines by bump type', async () => {
+      const entry = await renderChangelogEntry(core, [core, utils], changesets, changelogOptions, config)
+
+      expect(entry).toBe('## 1.1.0\n### Minor Changes\n\n\n- Add feature ([#12](https://github.com/owner/repo/pull/12))\n\n\n### Patch Changes\n\n\n- Fix bug ([#13](https://github.com/owner/repo/pull/13))\n\n')
+    })
+
+    it('lists updated dependencies', async () => {
+      const entry = await renderChangelogEntry(utils, [core, utils], changesets, changelogOptions, config)
+
+      expect(entry).toBe('## 0.1.1\n### Patch Changes\n\n- Updated dependencies [[`abc1234`](https://github.com/owner/repo/commit/abc1234567890), [`def1234`](https://github.com/owner/repo/commit/def1234567890)]:\n  - core@1.1.0\n')
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { fillTemplate, getHostUrl, getProvider, normalizeHost, PROVIDERS } from '../src/_providers'
+
+describe('_providers', () => {
+  describe('getProvider', () => {
+    it('defaults to GitHub', () => {
+      expect(getProvider({ repo: 'owner/repo' })).toBe(PROVIDERS.github)
+    })
+
+    it('returns the configured provider', () => {
+      expect(getProvider({ repo: 'owner/repo', provider: 'gitlab' })).toBe(PROVIDERS.gitlab)
+    })
+  })
+
+  describe('normalizeHost', () => {
+    it('adds a protocol if missing', () => {
+      expect(normalizeHost('github.example.com')).toBe('https://github.example.com')
+    })
+
+    it('keeps an existing protocol and removes trailing slashes', () => {
+      expect(normalizeHost('http://gitea.local:3000/')).toBe('http://gitea.local:3000')
+      expect(normalizeHost('https://github.example.com//')).toBe('https://github.example.com')
+    })
+  })
+
+  describe('getHostUrl', () => {
+    it('returns the default host of the provider', () => {
+      expect(getHostUrl({ repo: 'owner/repo' })).toBe('https://github.com')
+      expect(getHostUrl({ repo: 'owner/repo', provider: 'gitlab' })).toBe('https://gitlab.com')
+      expect(getHostUrl({ repo: 'owner/repo', provider: 'bitbucket' })).toBe('https://bitbucket.org')
+    })
+
+    it('prefers the host option', () => {
+      expect(getHostUrl({ repo: 'owner/repo', provider: 'gitlab', host: 'gitlab.example.com' })).toBe('https://gitlab.example.com')
+    })
+
+    it('throws for self-hosted providers without a host', () => {
+      expect(() => getHostUrl({ repo: 'owner/repo', provider: 'gitea' })).toThrow('Please provide a host for the "gitea" provider.')
+    })
+  })
+
+  describe('fillTemplate', () => {
+    it('replaces all placeholders', () => {
+      expect(fillTemplate('{host}/{repo}/pull/{number}', { host: 'https://github.com', repo: 'owner/repo', number: 1 })).toBe('https://github.com/owner/repo/pull/1')
+    })
+
+    it('leaves unknown placeholders untouched', () => {
+      expect(fillTemplate('{host}/{unknown}', { host: 'https://github.com' })).toBe('https://github.com/{unknown}')
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { assertChangesetResolved, clearUnresolvedChangesets, formatUnresolvedReport, getUnresolvedChangesets, reportUnresolvedChangeset, takeUnresolvedChangeset } from '../src/_report'
+
+describe('_report', () => {
+  beforeEach(() => {
+    clearUnresolvedChangesets()
+  })
+
+  describe('reportUnresolvedChangeset', () => {
+    it('lists every changeset only once', () => {
+      reportUnresolvedChangeset({ id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'Not found' })
+      reportUnresolvedChangeset({ id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'Not found' })
+      reportUnresolvedChangeset({ id: 'quiet-owls', reason: 'missing-commit', message: 'No commit' })
+
+      expect(getUnresolvedChangesets().map(changeset => changeset.id)).toEqual(['brave-lions', 'quiet-owls'])
+    })
+
+    it('can be cleared', () => {
+      reportUnresolvedChangeset({ id: 'brave-lions', reason: 'missing-commit', message: 'No commit' })
+      clearUnresolvedChangesets()
+
+      expect(getUnresolvedChangesets()).toEqual([])
+    })
+  })
+
+  describe('takeUnresolvedChangeset', () => {
+    it('returns the changeset and removes it from the report', () => {
+      reportUnresolvedChangeset({ id: 'brave-lions', reason: 'missing-commit', message: 'No commit' })
+      reportUnresolvedChangeset({ id: 'quiet-owls', reason: 'missing-commit', message: 'No commit' })
+
+      expect(takeUnresolvedChangeset('brave-lions')).toEqual({ id: 'brave-lions', reason: 'missing-commit', message: 'No commit' })
+      expect(takeUnresolvedChangeset('brave-lions')).toBeUndefined()
+      expect(getUnresolvedChangesets().map(changeset => changeset.id)).toEqual(['quiet-owls'])
+    })
+  })
+
+  describe('formatUnresolvedReport', () => {
+    it('formats a single changeset', () => {
+      expect(formatUnresolvedReport([{ id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'Not found' }]))
+        .toBe('Couldn\'t resolve the commit of 1 changeset, so it\'s linked without a PR:\n- brave-lions (abc1234): Not found')
+    })
+
+    it('formats multiple changesets', () => {
+      expect(formatUnresolvedReport([
+        { id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'Not found' },
+        { id: 'quiet-owls', reason: 'missing-commit', message: 'No commit' },
+      ])).toBe('Couldn\'t resolve the commits of 2 changesets, so they\'re linked without PRs:\n- brave-lions (abc1234): Not found\n- quiet-owls: No commit')
+    })
+  })
+
+  describe('assertChangesetResolved', () => {
+    it('doesn\'t throw for fully linked changesets', () => {
+      expect(() => assertChangesetResolved('brave-lions', { summary: 'Fix a bug', commit: 'abc1234567890', pr: 12 })).not.toThrow()
+    })
+
+    it('includes the reason of unresolved commits', () => {
+      reportUnresolvedChangeset({ id: 'brave-lions', commit: 'abc1234567890', reason: 'commit-not-found', message: 'The commit isn\'t part of the local git history' })
+
+      expect(() => assertChangesetResolved('brave-lions', { summary: 'Fix a bug' }))
+        .toThrow('Couldn\'t resolve the commit of changeset "brave-lions": The commit isn\'t part of the local git history. Fix the changeset or set the "strict" option to "warn".')
+    })
+
+    it('throws for missing PR numbers and empty summaries', () => {
+      expect(() => assertChangesetResolved('brave-lions', { summary: 'Fix a bug', commit: 'abc1234567890' })).toThrow('Couldn\'t find a PR number for changeset "brave-lions" (commit abc1234)')
+      expect(() => assertChangesetResolved('brave-lions', { summary: ' ', commit: 'abc1234567890', pr: 12 })).toThrow('The summary of changeset "brave-lions" is empty')
+    })
+  })
+})
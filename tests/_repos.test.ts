@@ -0,0 +1,48 @@
+import type { NewChangesetWithCommit } from '@changesets/types'
+import type { ValidOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { findPackageRepo, getCommitOptions, getPackageOptions } from '../src/_repos'
+
+const options: ValidOptions = { repo: 'owner/repo', packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: true }, '@scope/cli': 'owner/cli' } }
+
+const changeset: NewChangesetWithCommit = {
+  id: 'brave-lions',
+  summary: 'Add feature',
+  commit: 'abc1234567890',
+  releases: [{ name: '@scope/ui', type: 'minor' }],
+}
+
+describe('_repos', () => {
+  describe('findPackageRepo', () => {
+    it('prefers the exact package name over the glob patterns', () => {
+      expect(findPackageRepo('@scope/cli', options)).toEqual({ repo: 'owner/cli', commits: false })
+      expect(findPackageRepo('@scope/ui', options)).toEqual({ repo: 'owner/scope-mirror', commits: true })
+      expect(findPackageRepo('core', options)).toBe(undefined)
+      expect(findPackageRepo('@scope/ui', { repo: 'owner/repo' })).toBe(undefined)
+    })
+  })
+
+  describe('getPackageOptions', () => {
+    it('replaces the repo', () => {
+      expect(getPackageOptions('@scope/ui', options).repo).toBe('owner/scope-mirror')
+      expect(getPackageOptions('@scope/cli', options).repo).toBe('owner/cli')
+      expect(getPackageOptions('core', options)).toBe(options)
+    })
+  })
+
+  describe('getCommitOptions', () => {
+    it('uses the repository of the released packages if it keeps the commits', () => {
+      expect(getCommitOptions(changeset, options).repo).toBe('owner/scope-mirror')
+      expect(getCommitOptions({ ...changeset, releases: [...changeset.releases, { name: '@scope/theme', type: 'patch' }, { name: 'core', type: 'none' }] }, options).repo).toBe('owner/scope-mirror')
+    })
+
+    it('keeps the repo if the repository doesn\'t keep the commits', () => {
+      expect(getCommitOptions({ ...changeset, releases: [{ name: '@scope/cli', type: 'patch' }] }, options)).toBe(options)
+    })
+
+    it('keeps the repo if the packages belong to different repositories', () => {
+      expect(getCommitOptions({ ...changeset, releases: [...changeset.releases, { name: 'core', type: 'patch' }] }, options)).toBe(options)
+      expect(getCommitOptions({ ...changeset, releases: [...changeset.releases, { name: '@scope/cli', type: 'patch' }] }, options)).toBe(options)
+    })
+  })
+})
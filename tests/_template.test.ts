@@ -0,0 +1,60 @@
+import type { ModCompWithPackage, NewChangesetWithCommit } from '@changesets/types'
+import type { ValidOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { renderDependencyLine, renderReleaseLine } from '../src/_template'
+
+describe('_template', () => {
+  const options: ValidOptions = { repo: 'owner/repo' }
+  const changeset: NewChangesetWithCommit = { id: 'changeset-1', commit: 'abc1234567890', summary: 'Fix a bug', releases: [] }
+
+  describe('renderReleaseLine', () => {
+    const data = { summary: 'Fix a bug', type: 'patch' as const, pr: 123, commit: 'abc1234567890', authors: ['alice'], changeset }
+
+    it('fills in all placeholders', () => {
+      expect(renderReleaseLine('{pr} {commit} {summary} ({type}) {authors}', data, options)).toBe('[#123](https://github.com/owner/repo/pull/123) [`abc1234`](https://github.com/owner/repo/commit/abc1234567890) Fix a bug (patch) [@alice](https://github.com/alice)')
+      expect(renderReleaseLine('{summary} {thanks}', data, options)).toBe('Fix a bug Thanks [@alice](https://github.com/alice)!')
+    })
+
+    it('removes the leftovers of empty placeholders', () => {
+      const withoutLinks = { ...data, pr: undefined, authors: [] }
+      expect(renderReleaseLine('{summary} ({pr}) {thanks}', withoutLinks, options)).toBe('Fix a bug')
+      expect(renderReleaseLine('[{pr}] {summary}', withoutLinks, options)).toBe('Fix a bug')
+    })
+
+    it('does not clean up the summary', () => {
+      expect(renderReleaseLine('{summary} ({pr})', { ...data, summary: 'Fix `foo()` and  []' }, options)).toBe('Fix `foo()` and  [] ([#123](https://github.com/owner/repo/pull/123))')
+    })
+
+    it('fills in the title and labels from the metadata file', () => {
+      const metadata = { number: 123, title: 'fix: Handle `foo()`', labels: ['bug', 'core'], commits: [] }
+
+      expect(renderReleaseLine('{summary} ({title}) [{labels}]', { ...data, metadata }, options)).toBe('Fix a bug (fix: Handle `foo()`) [bug, core]')
+      expect(renderReleaseLine('{summary} ({title}) [{labels}]', data, options)).toBe('Fix a bug')
+    })
+
+    it('calls function templates with the data and links', () => {
+      const result = renderReleaseLine(({ summary, type, links }) => `**${type}**: ${summary} ${links.pr}`, data, options)
+      expect(result).toBe('**patch**: Fix a bug [#123](https://github.com/owner/repo/pull/123)')
+    })
+  })
+
+  describe('renderDependencyLine', () => {
+    const dependency: ModCompWithPackage = {
+      name: 'pkg',
+      newVersion: '2.0.0',
+      oldVersion: '1.0.0',
+      type: 'major',
+      changesets: [],
+      packageJson: { name: 'pkg', version: '2.0.0' },
+      dir: 'packages/pkg',
+    }
+
+    it('fills in all placeholders', () => {
+      expect(renderDependencyLine('{name} ({oldVersion} → {version}, {type})', dependency)).toBe('pkg (1.0.0 → 2.0.0, major)')
+    })
+
+    it('calls function templates with the data', () => {
+      expect(renderDependencyLine(({ name, version }) => `\`${name}\` v${version}`, dependency)).toBe('`pkg` v2.0.0')
+    })
+  })
+})
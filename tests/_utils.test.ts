@@ -1,6 +1,7 @@
+import type { Commit } from '@napi-rs/simple-git'
 import type { ValidOptions } from '../src/types'
 import { describe, expect, it } from 'vitest'
-import { cleanSummary, getCommitUrl, getPrNumber, getPrUrl, getRepoUrl, getShortSha, getSuffix, validate } from '../src/_utils'
+import { cleanSummary, getAuthorLinks, getBranchUrl, getCoAuthorEmails, getCommitAuthors, getCommitLink, getCommitMessageScope, getCommitUrl, getCompareUrl, getIssueUrl, getPrLink, getPrNumber, getPrUrl, getRepoUrl, getShortSha, getSuffix, getSummaryFromCommitMessage, getTagName, getUsernameFromEmail, getUserUrl, parseSummary, validate } from '../src/_utils'
 
 describe('_utils', () => {
   describe('getRepoUrl', () => {
@@ -8,6 +9,16 @@ describe('_utils', () => {
       const options: ValidOptions = { repo: 'owner/repo' }
       expect(getRepoUrl(options)).toBe('https://github.com/owner/repo')
     })
+
+    it('returns the GitHub Enterprise URL when a host is set', () => {
+      const options: ValidOptions = { repo: 'owner/repo', host: 'github.example.com' }
+      expect(getRepoUrl(options)).toBe('https://github.example.com/owner/repo')
+    })
+
+    it('returns the GitLab URL for nested groups', () => {
+      const options: ValidOptions = { repo: 'group/subgroup/repo', provider: 'gitlab' }
+      expect(getRepoUrl(options)).toBe('https://gitlab.com/group/subgroup/repo')
+    })
   })
 
   describe('getCommitUrl', () => {
@@ -16,6 +27,13 @@ describe('_utils', () => {
       const commitHash = '1234567890abcdef'
       expect(getCommitUrl(options, commitHash)).toBe('https://github.com/owner/repo/commit/1234567890abcdef')
     })
+
+    it('returns the commit URL for other providers', () => {
+      const commitHash = '1234567890abcdef'
+      expect(getCommitUrl({ repo: 'group/sub/repo', provider: 'gitlab' }, commitHash)).toBe('https://gitlab.com/group/sub/repo/-/commit/1234567890abcdef')
+      expect(getCommitUrl({ repo: 'owner/repo', provider: 'bitbucket' }, commitHash)).toBe('https://bitbucket.org/owner/repo/commits/1234567890abcdef')
+      expect(getCommitUrl({ repo: 'owner/repo', provider: 'forgejo', host: 'codeberg.org' }, commitHash)).toBe('https://codeberg.org/owner/repo/commit/1234567890abcdef')
+    })
   })
 
   describe('getPrUrl', () => {
@@ -30,6 +48,57 @@ describe('_utils', () => {
       expect(getPrUrl(options, 1)).toBe('https://github.com/owner/repo/pull/1')
       expect(getPrUrl(options, 999)).toBe('https://github.com/owner/repo/pull/999')
     })
+
+    it('returns the pull request URL for other providers', () => {
+      expect(getPrUrl({ repo: 'group/sub/repo', provider: 'gitlab' }, 123)).toBe('https://gitlab.com/group/sub/repo/-/merge_requests/123')
+      expect(getPrUrl({ repo: 'owner/repo', provider: 'bitbucket' }, 123)).toBe('https://bitbucket.org/owner/repo/pull-requests/123')
+      expect(getPrUrl({ repo: 'owner/repo', provider: 'gitea', host: 'https://gitea.example.com/' }, 123)).toBe('https://gitea.example.com/owner/repo/pulls/123')
+    })
+  })
+
+  describe('getIssueUrl', () => {
+    it('returns the issue URL', () => {
+      expect(getIssueUrl({ repo: 'owner/repo' }, 123)).toBe('https://github.com/owner/repo/issues/123')
+      expect(getIssueUrl({ repo: 'group/sub/repo', provider: 'gitlab' }, 123)).toBe('https://gitlab.com/group/sub/repo/-/issues/123')
+    })
+  })
+
+  describe('getUserUrl', () => {
+    it('returns the GitHub profile URL', () => {
+      const options: ValidOptions = { repo: 'owner/repo' }
+      expect(getUserUrl(options, 'octocat')).toBe('https://github.com/octocat')
+    })
+
+    it('uses the configured host', () => {
+      const options: ValidOptions = { repo: 'owner/repo', host: 'https://github.example.com' }
+      expect(getUserUrl(options, 'octocat')).toBe('https://github.example.com/octocat')
+    })
+  })
+
+  describe('getTagName', () => {
+    it('uses "{name}@{version}" by default', () => {
+      expect(getTagName({ repo: 'owner/repo' }, '@scope/pkg', '1.0.0')).toBe('@scope/pkg@1.0.0')
+    })
+
+    it('uses the tagFormat option', () => {
+      expect(getTagName({ repo: 'owner/repo', tagFormat: 'v{version}' }, 'pkg', '1.0.0')).toBe('v1.0.0')
+    })
+  })
+
+  describe('getCompareUrl', () => {
+    it('returns the compare URL of the provider', () => {
+      expect(getCompareUrl({ repo: 'owner/repo' }, '@scope/pkg@1.0.0', '@scope/pkg@1.1.0')).toBe('https://github.com/owner/repo/compare/@scope/pkg@1.0.0...@scope/pkg@1.1.0')
+      expect(getCompareUrl({ repo: 'group/sub/repo', provider: 'gitlab' }, 'v1.0.0', 'v1.1.0')).toBe('https://gitlab.com/group/sub/repo/-/compare/v1.0.0...v1.1.0')
+      expect(getCompareUrl({ repo: 'owner/repo', provider: 'bitbucket' }, 'v1.0.0', 'v1.1.0')).toBe('https://bitbucket.org/owner/repo/branches/compare/v1.1.0%0Dv1.0.0')
+    })
+  })
+
+  describe('getBranchUrl', () => {
+    it('returns the tree URL of the branch', () => {
+      expect(getBranchUrl({ repo: 'owner/repo' }, 'feature/next')).toBe('https://github.com/owner/repo/tree/feature/next')
+      expect(getBranchUrl({ repo: 'group/repo', provider: 'gitlab' }, 'next')).toBe('https://gitlab.com/group/repo/-/tree/next')
+      expect(getBranchUrl({ repo: 'owner/repo', provider: 'forgejo', host: 'https://codeberg.org' }, 'next')).toBe('https://codeberg.org/owner/repo/src/branch/next')
+    })
   })
 
   describe('getShortSha', () => {
@@ -70,6 +139,83 @@ describe('_utils', () => {
     })
   })
 
+  describe('parseSummary', () => {
+    it('extracts the PR override', () => {
+      expect(parseSummary('pr: #123\nAdd feature')).toEqual({ summary: 'Add feature', overrides: { pr: 123, authors: [] } })
+      expect(parseSummary('pull request: 456\nAdd feature').overrides.pr).toBe(456)
+    })
+
+    it('extracts the commit override', () => {
+      expect(parseSummary('commit: abc123\nAdd feature')).toEqual({ summary: 'Add feature', overrides: { commit: 'abc123', authors: [] } })
+    })
+
+    it('extracts multiple author overrides', () => {
+      const input = 'author: @alice\nauthor: bob\nuser: @carol\nAdd feature'
+      expect(parseSummary(input)).toEqual({ summary: 'Add feature', overrides: { authors: ['alice', 'bob', 'carol'] } })
+    })
+
+    it('extracts all overrides at once', () => {
+      const input = 'pr: #123\ncommit: abc123\nauthor: @user\nAdd feature'
+      expect(parseSummary(input)).toEqual({
+        summary: 'Add feature',
+        overrides: { pr: 123, commit: 'abc123', authors: ['user'] },
+      })
+    })
+
+    it('extracts the internal marker if the "internalChanges" option uses it', () => {
+      expect(parseSummary('Update release script\ninternal: true', { internalChanges: {} })).toEqual({ summary: 'Update release script', overrides: { internal: true, authors: [] } })
+      expect(parseSummary('Update release script\ninternal: false', { internalChanges: {} }).overrides.internal).toBe(undefined)
+      expect(parseSummary('Update release script\ninternal: true')).toEqual({ summary: 'Update release script\ninternal: true', overrides: { authors: [] } })
+      expect(parseSummary('Update release script\ninternal: true', { internalChanges: { marker: false } }).summary).toBe('Update release script\ninternal: true')
+    })
+
+    it('normalizes CRLF line endings', () => {
+      expect(parseSummary('Add feature\r\n\r\npr: #123\r\nWith details')).toEqual({ summary: 'Add feature\n\nWith details', overrides: { pr: 123, authors: [] } })
+    })
+
+    it('returns empty overrides if no prefixes found', () => {
+      expect(parseSummary('This is a plain summary')).toEqual({ summary: 'This is a plain summary', overrides: { authors: [] } })
+    })
+  })
+
+  describe('getSummaryFromCommitMessage', () => {
+    const options: ValidOptions = { repo: 'owner/repo', summaryFallback: 'subject' }
+    const msg = 'fix(api): Handle errors (#12)\n\nRetry failed requests\nonce\n\nCo-authored-by: Jane <jane@example.com>'
+
+    it('removes the PR number and the Conventional Commit prefix from the subject', () => {
+      expect(getSummaryFromCommitMessage(msg, options)).toBe('Handle errors')
+      expect(getSummaryFromCommitMessage('Handle errors #12', options)).toBe('Handle errors')
+      expect(getSummaryFromCommitMessage('Note: Handle errors', options)).toBe('Note: Handle errors')
+      expect(getSummaryFromCommitMessage('Handle errors [PR-12]', { ...options, prPatterns: ['\\[PR-(?<pr>\\d+)\\]'] })).toBe('Handle errors')
+    })
+
+    it('adds the body without the trailers', () => {
+      expect(getSummaryFromCommitMessage(msg, { ...options, summaryFallback: 'message' })).toBe('Handle errors\n\nRetry failed requests\nonce')
+      expect(getSummaryFromCommitMessage('fix: Handle errors\n\nCo-authored-by: Jane <jane@example.com>', { ...options, summaryFallback: 'message' })).toBe('Handle errors')
+    })
+  })
+
+  describe('getCommitMessageScope', () => {
+    const msg = 'Add feature\n\nSome description\nPR: 1\n\nPR: 123\nReviewed-by: Jane'
+
+    it('returns the subject', () => {
+      expect(getCommitMessageScope(msg, 'subject')).toBe('Add feature')
+    })
+
+    it('returns the full message', () => {
+      expect(getCommitMessageScope(msg, 'message')).toBe(msg)
+    })
+
+    it('returns the trailers', () => {
+      expect(getCommitMessageScope(msg, 'trailers')).toBe('PR: 123\nReviewed-by: Jane')
+    })
+
+    it('returns an empty string without trailers', () => {
+      expect(getCommitMessageScope('Add feature', 'trailers')).toBe('')
+      expect(getCommitMessageScope('Add feature\n\nSome description', 'trailers')).toBe('')
+    })
+  })
+
   describe('getPrNumber', () => {
     it('extracts PR number from basic PR reference at the end', () => {
       const msg = 'fix: Correct the API endpoint (#123)'
@@ -116,12 +262,131 @@ describe('_utils', () => {
       expect(getPrNumber(msg)).toBe(undefined)
     })
 
+    it('extracts PR number from GitHub merge commit format', () => {
+      const msg = 'Merge pull request #321 from org/feature-branch\n\nAdd feature'
+      expect(getPrNumber(msg)).toBe(321)
+    })
+
+    it('extracts PR number from GitLab merge request trailer', () => {
+      const msg = 'Merge branch \'feature\' into \'main\'\n\nAdd feature\n\nSee merge request group/subgroup/project!654'
+      expect(getPrNumber(msg)).toBe(654)
+    })
+
+    it('prefers the squash merge suffix over the GitLab merge request trailer', () => {
+      const msg = 'Add feature (#12)\n\nSee merge request group/project!654'
+      expect(getPrNumber(msg)).toBe(12)
+    })
+
+    it('extracts PR number with custom patterns', () => {
+      const options = { prPatterns: ['\\(PR-(?<pr>\\d+)\\)$', '^\\[#(?<pr>\\d+)\\]'] }
+      expect(getPrNumber('chore(release): bump (PR-123)', options)).toBe(123)
+      expect(getPrNumber('[#456] fix: Correct typo', options)).toBe(456)
+    })
+
+    it('prefers custom patterns over the built-in patterns', () => {
+      const options = { prPatterns: ['^\\[#(?<pr>\\d+)\\]'] }
+      expect(getPrNumber('[#456] fix: Correct typo (#789)', options)).toBe(456)
+    })
+
+    it('falls back to the built-in patterns if custom patterns do not match', () => {
+      const options = { prPatterns: ['\\(PR-(?<pr>\\d+)\\)$'] }
+      expect(getPrNumber('fix: Correct typo (#789)', options)).toBe(789)
+    })
+
+    it('respects the scope of custom patterns', () => {
+      const msg = 'fix: Correct typo\n\nSee PR-42 for details\n\nPR: 123\nReviewed-by: Jane'
+      expect(getPrNumber(msg, { prPatterns: ['PR-(?<pr>\\d+)'] })).toBe(undefined)
+      expect(getPrNumber(msg, { prPatterns: ['PR-(?<pr>\\d+)'], prPatternScope: 'message' })).toBe(42)
+      expect(getPrNumber(msg, { prPatterns: ['PR-(?<pr>\\d+)'], prPatternScope: 'trailers' })).toBe(undefined)
+      expect(getPrNumber(msg, { prPatterns: ['^PR: (?<pr>\\d+)$'], prPatternScope: 'trailers' })).toBe(123)
+    })
+
     it('handles multiline commit messages correctly', () => {
       const msg = 'fix: Update dependencies (#789)\n\nThis is a detailed description\nWith multiple lines\nAnd a reference to #123'
       expect(getPrNumber(msg)).toBe(789)
     })
   })
 
+  describe('getUsernameFromEmail', () => {
+    const options: ValidOptions = { repo: 'owner/repo', usernames: { 'Jane@Example.com': 'janedoe' } }
+
+    it('extracts the username from GitHub noreply emails', () => {
+      expect(getUsernameFromEmail('12345+octocat@users.noreply.github.com', options)).toBe('octocat')
+      expect(getUsernameFromEmail('octocat@users.noreply.github.com', options)).toBe('octocat')
+    })
+
+    it('uses the usernames option (case-insensitive)', () => {
+      expect(getUsernameFromEmail('jane@example.com', options)).toBe('janedoe')
+    })
+
+    it('returns undefined for unknown emails', () => {
+      expect(getUsernameFromEmail('unknown@example.com', options)).toBe(undefined)
+      expect(getUsernameFromEmail('noreply@github.com', options)).toBe(undefined)
+      expect(getUsernameFromEmail(null, options)).toBe(undefined)
+    })
+  })
+
+  describe('getCoAuthorEmails', () => {
+    it('extracts all co-author emails', () => {
+      const msg = 'Add feature (#123)\n\nSome description\n\nCo-authored-by: Jane Doe <jane@example.com>\nco-authored-by: octocat <1+octocat@users.noreply.github.com>'
+      expect(getCoAuthorEmails(msg)).toEqual(['jane@example.com', '1+octocat@users.noreply.github.com'])
+    })
+
+    it('returns an empty array without co-authors', () => {
+      expect(getCoAuthorEmails('Add feature (#123)')).toEqual([])
+      expect(getCoAuthorEmails(null)).toEqual([])
+    })
+  })
+
+  describe('getCommitAuthors', () => {
+    const options: ValidOptions = { repo: 'owner/repo', usernames: { 'jane@example.com': 'janedoe' } }
+
+    function createCommit(author: string, committer: string, message: string) {
+      return {
+        author: () => ({ email: () => author }),
+        committer: () => ({ email: () => committer }),
+        message: () => message,
+      } as unknown as Commit
+    }
+
+    it('returns the author and co-authors without duplicates', () => {
+      const commit = createCommit('octocat@users.noreply.github.com', 'noreply@github.com', 'Add feature\n\nCo-authored-by: Jane <jane@example.com>\nCo-authored-by: Octo <1+octocat@users.noreply.github.com>')
+      expect(getCommitAuthors(commit, options)).toEqual(['octocat', 'janedoe'])
+    })
+
+    it('falls back to the committer', () => {
+      const commit = createCommit('unknown@example.com', 'jane@example.com', 'Add feature')
+      expect(getCommitAuthors(commit, options)).toEqual(['janedoe'])
+    })
+
+    it('returns an empty array when no email can be resolved', () => {
+      const commit = createCommit('unknown@example.com', 'noreply@github.com', 'Add feature')
+      expect(getCommitAuthors(commit, options)).toEqual([])
+    })
+  })
+
+  describe('links', () => {
+    const options: ValidOptions = { repo: 'owner/repo' }
+
+    it('returns the PR link', () => {
+      expect(getPrLink(options, 123)).toBe('[#123](https://github.com/owner/repo/pull/123)')
+    })
+
+    it('returns the commit link', () => {
+      expect(getCommitLink(options, '1234567890abcdef')).toBe('[`1234567`](https://github.com/owner/repo/commit/1234567890abcdef)')
+    })
+
+    it('returns the commit link with a different URL or without a URL', () => {
+      expect(getCommitLink(options, '1234567890abcdef', 'https://github.com/owner/repo/tree/next')).toBe('[`1234567`](https://github.com/owner/repo/tree/next)')
+      expect(getCommitLink(options, '1234567890abcdef', null)).toBe('`1234567`')
+    })
+
+    it('returns the author links', () => {
+      expect(getAuthorLinks(options, ['alice', 'bob'])).toBe('[@alice](https://github.com/alice), [@bob](https://github.com/bob)')
+      expect(getAuthorLinks(options, [])).toBe('')
+    })
+  })
+
   describe('getSuffix', () => {
     const options: ValidOptions = { repo: 'owner/repo' }
 
@@ -150,6 +415,19 @@ describe('_utils', () => {
       expect(result).toContain('#123')
       expect(result).not.toContain('1234567')
     })
+
+    it('prioritizes the PR override over the PR number from git', () => {
+      expect(getSuffix(123, '1234567890abcdef', options, { pr: 456 })).toBe(' ([#456](https://github.com/owner/repo/pull/456))')
+    })
+
+    it('prioritizes the commit override over the commit SHA from git', () => {
+      expect(getSuffix(undefined, '1234567890abcdef', options, { commit: 'fedcba0987654321' })).toBe(' ([`fedcba0`](https://github.com/owner/repo/commit/fedcba0987654321))')
+    })
+
+    it('appends a thanks note for authors', () => {
+      expect(getSuffix(123, undefined, options, { authors: ['alice'] })).toBe(' ([#123](https://github.com/owner/repo/pull/123)) Thanks [@alice](https://github.com/alice)!')
+      expect(getSuffix(undefined, undefined, options, { authors: ['alice', 'bob'] })).toBe(' Thanks [@alice](https://github.com/alice), [@bob](https://github.com/bob)!')
+    })
   })
 
   describe('validate', () => {
@@ -192,6 +470,158 @@ describe('_utils', () => {
       })
     })
 
+    it('accepts nested group paths for GitLab', () => {
+      expect(() => validate({ repo: 'group/subgroup/repo', provider: 'gitlab' })).not.toThrow()
+      expect(() => validate({ repo: 'group/repo', provider: 'gitlab' })).not.toThrow()
+      expect(() => validate({ repo: 'group', provider: 'gitlab' })).toThrow('Invalid repo format. Please use the format "group/repo" or "group/subgroup/repo"')
+    })
+
+    it('throws for an unknown provider', () => {
+      expect(() => validate({ repo: 'owner/repo', provider: 'sourcehut' })).toThrow('Invalid provider. Please use one of: "github", "gitlab", "bitbucket", "gitea", "forgejo"')
+    })
+
+    it('throws for an invalid host', () => {
+      expect(() => validate({ repo: 'owner/repo', host: 123 })).toThrow('Invalid host format')
+      expect(() => validate({ repo: 'owner/repo', host: 'not a host' })).toThrow('Invalid host format')
+    })
+
+    it('requires a host for self-hosted providers', () => {
+      expect(() => validate({ repo: 'owner/repo', provider: 'gitea' })).toThrow('Please provide a host for the "gitea" provider.')
+      expect(() => validate({ repo: 'owner/repo', provider: 'forgejo', host: 'codeberg.org' })).not.toThrow()
+    })
+
+    it('throws for an invalid remote', () => {
+      expect(() => validate({ repo: 'owner/repo', remote: 'upstream' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', remote: '' })).toThrow('Invalid remote format')
+      expect(() => validate({ repo: 'owner/repo', remote: 123 })).toThrow('Invalid remote format')
+    })
+
+    it('accepts valid prPatterns', () => {
+      expect(() => validate({ repo: 'owner/repo', prPatterns: ['\\(PR-(?<pr>\\d+)\\)$'], prPatternScope: 'message' })).not.toThrow()
+    })
+
+    it('throws for invalid prPatterns', () => {
+      expect(() => validate({ repo: 'owner/repo', prPatterns: 'PR-(?<pr>\\d+)' })).toThrow('Invalid prPatterns format')
+      expect(() => validate({ repo: 'owner/repo', prPatterns: [123] })).toThrow('Invalid prPatterns format')
+      expect(() => validate({ repo: 'owner/repo', prPatterns: ['(?<pr>\\d+'] })).toThrow('Invalid prPatterns entry "(?<pr>\\d+": Invalid regular expression')
+      expect(() => validate({ repo: 'owner/repo', prPatterns: ['PR-(\\d+)'] })).toThrow('Invalid prPatterns entry "PR-(\\d+)": The pattern needs a named capture group called "pr"')
+    })
+
+    it('throws for an invalid prPatternScope', () => {
+      expect(() => validate({ repo: 'owner/repo', prPatternScope: 'body' })).toThrow('Invalid prPatternScope. Please use one of: "subject", "message", "trailers"')
+    })
+
+    it('throws for invalid linkIssues, linkMentions and linkCommits', () => {
+      expect(() => validate({ repo: 'owner/repo', linkIssues: false, linkMentions: true, linkCommits: true })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', linkIssues: 'no' })).toThrow('Invalid linkIssues format')
+      expect(() => validate({ repo: 'owner/repo', linkMentions: 1 })).toThrow('Invalid linkMentions format')
+      expect(() => validate({ repo: 'owner/repo', linkCommits: 'yes' })).toThrow('Invalid linkCommits format')
+    })
+
+    it('throws for invalid conventionalCommits options', () => {
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: true })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: { style: 'emoji', labels: { feat: 'New' }, scopeTemplate: '`{scope}`', breakingLabel: '💥' } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: 'yes' })).toThrow('Invalid conventionalCommits format')
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: { style: 'italic' } })).toThrow('Invalid conventionalCommits.style')
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: { labels: ['feat'] } })).toThrow('Invalid conventionalCommits.labels format')
+      expect(() => validate({ repo: 'owner/repo', conventionalCommits: { scopeTemplate: 1 } })).toThrow('Invalid conventionalCommits.scopeTemplate format')
+    })
+
+    it('throws for an invalid strict level', () => {
+      expect(() => validate({ repo: 'owner/repo', strict: 'error' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', strict: 'warn' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', strict: true })).toThrow('Invalid strict level. Please use one of: "warn", "error"')
+    })
+
+    it('throws for an invalid prefetch option', () => {
+      expect(() => validate({ repo: 'owner/repo', prefetch: true })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', prefetch: 'yes' })).toThrow('Invalid prefetch format')
+    })
+
+    it('throws for an invalid metadataFile option', () => {
+      expect(() => validate({ repo: 'owner/repo', metadataFile: 'pr-metadata.json' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', metadataFile: ' ' })).toThrow('Invalid metadataFile format')
+      expect(() => validate({ repo: 'owner/repo', metadataFile: true })).toThrow('Invalid metadataFile format')
+    })
+
+    it('throws for an invalid releaseNotes option', () => {
+      expect(() => validate({ repo: 'owner/repo', releaseNotes: true })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', releaseNotes: 'docs/releases.json' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', releaseNotes: '' })).toThrow('Invalid releaseNotes format')
+      expect(() => validate({ repo: 'owner/repo', releaseNotes: 1 })).toThrow('Invalid releaseNotes format')
+    })
+
+    it('throws for invalid defaultBranch and unreachableCommits options', () => {
+      expect(() => validate({ repo: 'owner/repo', defaultBranch: 'main', unreachableCommits: 'branch' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', defaultBranch: '' })).toThrow('Invalid defaultBranch format')
+      expect(() => validate({ repo: 'owner/repo', unreachableCommits: 'hide' })).toThrow('Invalid unreachableCommits. Please use one of: "skip", "branch", "mark"')
+    })
+
+    it('throws for an invalid packageRepos option', () => {
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': 'owner/scope-mirror' } })).not.toThrow()
+      expect(() => validate({ repo: 'group/repo', provider: 'gitlab', packageRepos: { '@scope/*': 'group/subgroup/mirror' } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': 'group/subgroup/mirror' } })).toThrow('Invalid packageRepos format')
+      expect(() => validate({ repo: 'owner/repo', packageRepos: ['owner/scope-mirror'] })).toThrow('Invalid packageRepos format')
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: true } } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: 'yes' } } })).toThrow('Invalid packageRepos format')
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': { commits: true } } })).toThrow('Invalid packageRepos format')
+      expect(() => validate({ repo: 'owner/repo', packageRepos: { '@scope/*': null } })).toThrow('Invalid packageRepos format')
+    })
+
+    it('throws for an invalid summaryFallback option', () => {
+      expect(() => validate({ repo: 'owner/repo', summaryFallback: 'message' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', summaryFallback: true })).toThrow('Invalid summaryFallback. Please use one of: "subject", "message"')
+    })
+
+    it('throws for an invalid internalChanges option', () => {
+      expect(() => validate({ repo: 'owner/repo', internalChanges: { marker: false, scopes: ['ci'], paths: ['tooling/**'], display: 'details' } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', internalChanges: true })).toThrow('Invalid internalChanges format')
+      expect(() => validate({ repo: 'owner/repo', internalChanges: { marker: 'yes' } })).toThrow('Invalid internalChanges.marker format')
+      expect(() => validate({ repo: 'owner/repo', internalChanges: { scopes: 'ci' } })).toThrow('Invalid internalChanges.scopes format')
+      expect(() => validate({ repo: 'owner/repo', internalChanges: { paths: [''] } })).toThrow('Invalid internalChanges.paths format')
+      expect(() => validate({ repo: 'owner/repo', internalChanges: { display: 'collapse' } })).toThrow('Invalid internalChanges.display. Please use one of: "hide", "details"')
+    })
+
+    it('throws for invalid compareLinks and tagFormat options', () => {
+      expect(() => validate({ repo: 'owner/repo', compareLinks: true, tagFormat: 'v{version}' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', compareLinks: 'yes' })).toThrow('Invalid compareLinks format')
+      expect(() => validate({ repo: 'owner/repo', tagFormat: 'latest' })).toThrow('Invalid tagFormat')
+      expect(() => validate({ repo: 'owner/repo', tagFormat: 1 })).toThrow('Invalid tagFormat')
+    })
+
+    it('throws for invalid issueTrackers', () => {
+      expect(() => validate({ repo: 'owner/repo', issueTrackers: { PLAT: 'https://jira.example.com/browse/{key}' } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', issueTrackers: ['PLAT'] })).toThrow('Invalid issueTrackers format')
+      expect(() => validate({ repo: 'owner/repo', issueTrackers: { 'PLAT-': 'https://jira.example.com' } })).toThrow('Invalid issueTrackers format')
+      expect(() => validate({ repo: 'owner/repo', issueTrackers: { PLAT: 1 } })).toThrow('Invalid issueTrackers format')
+    })
+
+    it('throws for invalid templates', () => {
+      expect(() => validate({ repo: 'owner/repo', template: '{summary}', dependencyTemplate: () => '' })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', template: 1 })).toThrow('Invalid template format')
+      expect(() => validate({ repo: 'owner/repo', dependencyTemplate: {} })).toThrow('Invalid dependencyTemplate format')
+    })
+
+    it('throws for invalid dependencies options', () => {
+      expect(() => validate({ repo: 'owner/repo', dependencies: { showRange: true, showType: false, linkPrs: true, groupByChangeset: true, collapseThreshold: 5 } })).not.toThrow()
+      expect(() => validate({ repo: 'owner/repo', dependencies: true })).toThrow('Invalid dependencies format')
+      expect(() => validate({ repo: 'owner/repo', dependencies: { showRange: 'yes' } })).toThrow('Invalid dependencies.showRange format')
+      expect(() => validate({ repo: 'owner/repo', dependencies: { collapseThreshold: -1 } })).toThrow('Invalid dependencies.collapseThreshold format')
+      expect(() => validate({ repo: 'owner/repo', dependencies: { collapseThreshold: 1.5 } })).toThrow('Invalid dependencies.collapseThreshold format')
+    })
+
+    it('accepts a usernames map', () => {
+      expect(() => validate({ repo: 'owner/repo', usernames: { 'jane@example.com': 'janedoe' } })).not.toThrow()
+    })
+
+    it('throws when usernames is not a map of strings', () => {
+      const invalidUsernames = [['janedoe'], 'janedoe', null, { 'jane@example.com': 123 }]
+
+      invalidUsernames.forEach((usernames) => {
+        expect(() => validate({ repo: 'owner/repo', usernames })).toThrow('Invalid usernames format')
+      })
+    })
+
     it('works as a type-guard', () => {
       // This test is primarily for TypeScript to check that validate works as a type-guard
       // The actual runtime behavior is tested in other tests
@@ -0,0 +1,120 @@
+import type { ModCompWithPackage } from '@changesets/types'
+import type { DependencyConfig } from '../src/_workspace'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { getDependentReleases, getReleasePlan, getWorkspacePackages } from '../src/_workspace'
+import { createTempDirectory, removeTempDirectory, writeFile } from './__fixtures__/directory'
+
+describe('_workspace', () => {
+  let cwd: string
+
+  const writePackageJson = (dir: string, packageJson: Record<string, unknown>) => {
+    writeFile(cwd, path.join(dir, 'package.json'), JSON.stringify(packageJson))
+  }
+
+  beforeEach(() => {
+    cwd = createTempDirectory('workspace-')
+  })
+
+  afterEach(() => {
+    removeTempDirectory(cwd)
+  })
+
+  describe('getReleasePlan', () => {
+    beforeEach(() => {
+      writePackageJson('.', { name: 'root', private: true, workspaces: ['packages/*'] })
+      writePackageJson('packages/core', { name: 'core', version: '1.2.3' })
+      writePackageJson('packages/utils', { name: 'utils', version: '0.1.0', dependencies: { core: '^1.2.3' } })
+      writePackageJson('packages/cli', { name: 'cli', version: '2.0.0', peerDependencies: { core: '^1.0.0' } })
+      writePackageJson('packages/docs', { name: 'docs', version: '0.0.0' })
+      writeFile(cwd, '.changeset/config.json', JSON.stringify({ changelog: false, updateInternalDependencies: 'patch' }))
+    })
+
+    it('uses the highest bump type of all changesets', async () => {
+      writeFile(cwd, '.changeset/brave-lions.md', '---\n"docs": minor\n---\n\nAdd feature\n')
+      writeFile(cwd, '.changeset/quiet-owls.md', '---\n"docs": patch\n---\n\nFix bug\n')
+
+      const { changesets, releases } = await getReleasePlan(cwd)
+
+      expect(changesets.map(changeset => changeset.id).sort()).toEqual(['brave-lions', 'quiet-owls'])
+      expect(releases).toMatchObject([
+        { name: 'docs', type: 'minor', oldVersion: '0.0.0', newVersion: '0.1.0', dir: 'packages/docs', packageJson: { name: 'docs' } },
+      ])
+    })
+
+    it('releases dependents like Changesets', async () => {
+      writeFile(cwd, '.changeset/brave-lions.md', '---\n"core": minor\n---\n\nAdd feature\n')
+
+      // "utils" still accepts the new version, but "cli" gets a major release for its peer dependency
+      expect((await getReleasePlan(cwd)).releases.map(({ name, type, newVersion }) => ({ name, type, newVersion }))).toEqual([
+        { name: 'core', type: 'minor', newVersion: '1.3.0' },
+        { name: 'cli', type: 'major', newVersion: '3.0.0' },
+      ])
+    })
+
+    it('takes the fixed groups into account', async () => {
+      writeFile(cwd, '.changeset/config.json', JSON.stringify({ changelog: false, fixed: [['core', 'docs']] }))
+      writeFile(cwd, '.changeset/brave-lions.md', '---\n"docs": patch\n---\n\nFix typo\n')
+
+      expect((await getReleasePlan(cwd)).releases.map(({ name, newVersion }) => ({ name, newVersion }))).toEqual([
+        { name: 'docs', newVersion: '1.2.4' },
+        { name: 'core', newVersion: '1.2.4' },
+      ])
+    })
+
+    it('uses prerelease versions in pre mode', async () => {
+      writeFile(cwd, '.changeset/pre.json', JSON.stringify({ mode: 'pre', tag: 'beta', initialVersions: { core: '1.2.3', utils: '0.1.0', cli: '2.0.0', docs: '0.0.0' }, changesets: [] }))
+      writeFile(cwd, '.changeset/brave-lions.md', '---\n"core": minor\n---\n\nAdd feature\n')
+
+      expect((await getReleasePlan(cwd)).releases.find(release => release.name === 'core')?.newVersion).toBe('1.3.0-beta.0')
+    })
+
+    it('rejects changesets of unknown packages', async () => {
+      writeFile(cwd, '.changeset/brave-lions.md', '---\n"unknown": minor\n---\n\nAdd feature\n')
+
+      await expect(getReleasePlan(cwd)).rejects.toThrow('unknown')
+    })
+  })
+
+  describe('getDependentReleases', () => {
+    const config: DependencyConfig = { updateInternalDependencies: 'patch', ___experimentalUnsafeOptions_WILL_CHANGE_IN_PATCH: { onlyUpdatePeerDependentsWhenOutOfRange: false } }
+    const core: ModCompWithPackage = { name: 'core', type: 'patch', oldVersion: '1.2.3', newVersion: '1.2.4', changesets: ['quiet-owls'], dir: 'packages/core', packageJson: { name: 'core', version: '1.2.3' } }
+    const names = (releases: ModCompWithPackage[]) => releases.map(release => release.name)
+
+    it('lists dependencies in range according to "updateInternalDependencies"', () => {
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: '^1.2.3' } }, [core], config))).toEqual(['core'])
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: '^1.2.3' } }, [core], { ...config, updateInternalDependencies: 'minor' }))).toEqual([])
+    })
+
+    it('always lists dependencies that leave the range', () => {
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: '~1.2.3' } }, [{ ...core, type: 'minor', newVersion: '1.3.0' }], { ...config, updateInternalDependencies: 'minor' }))).toEqual(['core'])
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: '1.2.3' } }, [core], { ...config, updateInternalDependencies: 'minor' }))).toEqual(['core'])
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: 'workspace:*' } }, [core], { ...config, updateInternalDependencies: 'minor' }))).toEqual(['core'])
+    })
+
+    it('lists peer dependencies unless "onlyUpdatePeerDependentsWhenOutOfRange" is enabled', () => {
+      expect(names(getDependentReleases({ name: 'cli', version: '2.0.0', peerDependencies: { core: '^1.0.0' } }, [core], { ...config, updateInternalDependencies: 'minor' }))).toEqual(['core'])
+      expect(names(getDependentReleases({ name: 'cli', version: '2.0.0', peerDependencies: { core: '^1.0.0' } }, [core], { ...config, ___experimentalUnsafeOptions_WILL_CHANGE_IN_PATCH: { onlyUpdatePeerDependentsWhenOutOfRange: true } }))).toEqual([])
+    })
+
+    it('ignores dev dependencies and invalid ranges', () => {
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', devDependencies: { core: '^1.2.3' } }, [core], config))).toEqual([])
+      expect(names(getDependentReleases({ name: 'utils', version: '0.1.0', dependencies: { core: 'file:../core' } }, [core], config))).toEqual([])
+    })
+  })
+
+  describe('getWorkspacePackages', () => {
+    it('returns the root package without a workspace', () => {
+      writePackageJson('.', { name: 'root', version: '1.0.0' })
+
+      expect(getWorkspacePackages(cwd)).toEqual([{ dir: '.', packageJson: { name: 'root', version: '1.0.0' } }])
+    })
+
+    it('returns the directories relative to the root of the workspace', () => {
+      writePackageJson('.', { name: 'root', private: true, workspaces: ['packages/*'] })
+      writePackageJson('packages/core', { name: 'core', version: '1.0.0' })
+
+      expect(getWorkspacePackages(cwd)).toEqual([{ dir: 'packages/core', packageJson: { name: 'core', version: '1.0.0' } }])
+    })
+  })
+})
@@ -1,19 +1,44 @@
 import type { ModCompWithPackage, NewChangesetWithCommit } from '@changesets/types'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { Repository } from '@napi-rs/simple-git'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearUnresolvedChangesets, getUnresolvedChangesets } from '../src/_report'
+import { clearRepositoryCache } from '../src/_utils'
 import changelogFunctions from '../src/index'
+import { createFakeRepository } from './__fixtures__/repository'
 
 // Create mock functions that we can access in our tests
 const mockMessageFn = vi.fn()
-const mockFindCommitFn = vi.fn(() => ({
+const mockAuthorEmailFn = vi.fn()
+const mockCommitterEmailFn = vi.fn()
+const mockFindCommitFn = vi.fn((sha: string) => ({
+  id: () => sha,
   message: mockMessageFn,
+  author: () => ({ email: mockAuthorEmailFn }),
+  committer: () => ({ email: mockCommitterEmailFn }),
 }))
 
+const mockRevWalkFn = vi.fn(() => {
+  const revWalk = {
+    pushHead: () => revWalk,
+    simplifyFirstParent: () => revWalk,
+    hide: () => revWalk,
+    [Symbol.iterator]: () => [][Symbol.iterator](),
+  }
+  return revWalk
+})
+const mockFindRemoteFn = vi.fn((): { url: () => string } | null => null)
+
 // Mock the @napi-rs/simple-git Repository functionality
 vi.mock('@napi-rs/simple-git', () => ({
   Repository: {
     discover: vi.fn(() => ({
       findCommit: mockFindCommitFn,
+      findRemote: mockFindRemoteFn,
       isShallow: () => false,
+      revWalk: mockRevWalkFn,
     })),
   },
 }))
@@ -24,7 +49,11 @@ describe('changelogFunctions', () => {
   beforeEach(() => {
     // Reset mocks between tests
     vi.clearAllMocks()
+    clearRepositoryCache()
+    clearUnresolvedChangesets()
     mockMessageFn.mockReset()
+    mockAuthorEmailFn.mockReset()
+    mockCommitterEmailFn.mockReset()
   })
 
   describe('getDependencyReleaseLine', () => {
@@ -159,6 +188,53 @@ describe('changelogFunctions', () => {
       expect(result).toContain('  - pkg@1.0.0')
     })
 
+    it('formats dependency updates with version ranges and PR links', async () => {
+      mockMessageFn.mockReturnValue('Add feature (#12)')
+
+      const changesets: NewChangesetWithCommit[] = [
+        {
+          id: 'changeset-1',
+          commit: 'abc1234567890',
+          summary: 'A summary',
+          releases: [{ name: 'pkg-1', type: 'minor' }],
+        },
+      ]
+
+      const dependenciesUpdated: ModCompWithPackage[] = [
+        {
+          name: 'pkg-1',
+          newVersion: '1.0.0',
+          oldVersion: '0.9.0',
+          type: 'minor',
+          changesets: ['changeset-1'],
+          packageJson: { name: 'pkg-1', version: '1.0.0' },
+          dir: 'packages/pkg-1',
+        },
+      ]
+
+      const result = await changelogFunctions.getDependencyReleaseLine(changesets, dependenciesUpdated, { ...validOptions, dependencies: { showRange: true, showType: true, linkPrs: true } })
+
+      expect(result).toBe('- Updated dependencies [[#12](https://github.com/owner/repo/pull/12)]:\n  - pkg-1: 0.9.0 → 1.0.0 (minor)')
+    })
+
+    it('formats dependency updates with a template', async () => {
+      const dependenciesUpdated: ModCompWithPackage[] = [
+        {
+          name: 'pkg-1',
+          newVersion: '1.0.0',
+          oldVersion: '0.9.0',
+          type: 'minor',
+          changesets: [],
+          packageJson: { name: 'pkg-1', version: '1.0.0' },
+          dir: 'packages/pkg-1',
+        },
+      ]
+
+      const result = await changelogFunctions.getDependencyReleaseLine([], dependenciesUpdated, { ...validOptions, dependencyTemplate: '`{name}` {version}' })
+
+      expect(result).toBe('- Updated dependencies:\n  - `pkg-1` 1.0.0')
+    })
+
     it('throws error with invalid options', async () => {
       const mockDeps: ModCompWithPackage[] = [{
         name: 'pkg',
@@ -235,11 +311,300 @@ describe('changelogFunctions', () => {
 
       const result = await changelogFunctions.getReleaseLine(changeset, 'minor', validOptions)
 
-      expect(result).toBe('\n- Add feature ([#789](https://github.com/owner/repo/pull/789))\n')
+      expect(result).toBe('\n- Add feature ([#123](https://github.com/owner/repo/pull/123)) Thanks [@user](https://github.com/user)!\n')
+    })
+
+    it('uses the commit override to look up the PR number', async () => {
+      mockMessageFn.mockReturnValue('Backport fix (#42)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'commit: def4567890abc\nFix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', validOptions)
+
+      expect(result).toBe('\n- Fix a bug ([#42](https://github.com/owner/repo/pull/42))\n')
+      expect(mockFindCommitFn).toHaveBeenCalledWith('def4567890abc')
+    })
+
+    it('links the commit override when no PR number is found', async () => {
+      mockMessageFn.mockReturnValue('Backport fix')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'commit: def4567890abc\nFix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', validOptions)
+
+      expect(result).toBe('\n- Fix a bug ([`def4567`](https://github.com/owner/repo/commit/def4567890abc))\n')
+    })
+
+    it('thanks the commit author and co-authors', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)\n\nCo-authored-by: Jane Doe <jane@example.com>\nCo-authored-by: Unknown <unknown@example.com>')
+      mockAuthorEmailFn.mockReturnValue('12345+octocat@users.noreply.github.com')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, usernames: { 'jane@example.com': 'janedoe' } })
+
+      expect(result).toBe('\n- Fix a bug ([#123](https://github.com/owner/repo/pull/123)) Thanks [@octocat](https://github.com/octocat), [@janedoe](https://github.com/janedoe)!\n')
+    })
+
+    it('prefers authors from the summary over the commit authors', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+      mockAuthorEmailFn.mockReturnValue('octocat@users.noreply.github.com')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'author: @hubot\nFix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', validOptions)
+
+      expect(result).toBe('\n- Fix a bug ([#123](https://github.com/owner/repo/pull/123)) Thanks [@hubot](https://github.com/hubot)!\n')
+    })
+
+    it('looks up the PR number in the merge commit', async () => {
+      vi.mocked(Repository.discover).mockReturnValueOnce(createFakeRepository({
+        base1234567890: { parents: [], message: 'Initial commit' },
+        abc1234567890: { parents: ['base1234567890'], message: 'Fix a bug' },
+        merge1234567890: { parents: ['base1234567890', 'abc1234567890'], message: 'Merge pull request #77 from org/fix' },
+      }, 'merge1234567890'))
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', validOptions)
+
+      expect(result).toBe('\n- Fix a bug ([#77](https://github.com/owner/repo/pull/77))\n')
+    })
+
+    it('handles commits that aren\'t reachable from the default branch', async () => {
+      const commits = {
+        base1234567890: { parents: [], message: 'Initial commit' },
+        abc1234567890: { parents: ['base1234567890'], message: 'Add prerelease feature' },
+      }
+      const repositoryOptions = { refs: { 'refs/remotes/origin/main': 'base1234567890' }, branch: 'next' }
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Add prerelease feature',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'minor' }],
+      }
+      const options = { ...validOptions, defaultBranch: 'main' }
+
+      vi.mocked(Repository.discover).mockReturnValueOnce(createFakeRepository(commits, 'abc1234567890', repositoryOptions))
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', options)).toBe('\n- Add prerelease feature (`abc1234`)\n')
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', { ...options, unreachableCommits: 'branch' })).toBe('\n- Add prerelease feature ([`abc1234`](https://github.com/owner/repo/tree/next))\n')
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', { ...options, unreachableCommits: 'mark' })).toBe('\n- **Pre-release:** Add prerelease feature (`abc1234`)\n')
+
+      expect(await changelogFunctions.getReleaseLine({ ...changeset, commit: 'base1234567890' }, 'minor', { ...options, unreachableCommits: 'mark' })).toBe('\n- Add prerelease feature ([`base123`](https://github.com/owner/repo/commit/base1234567890))\n')
+    })
+
+    it('enriches entries from the metadata file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'changelog-index-'))
+      const metadataFile = path.join(dir, 'prs.ndjson')
+      fs.writeFileSync(metadataFile, `${JSON.stringify({ number: 77, title: 'Fix the bug', author: { login: 'octocat' }, labels: [{ name: 'bug' }], commits: [{ oid: 'abc1234567890' }] })}\n`)
+      mockMessageFn.mockReturnValue('Fix a bug')
+      mockAuthorEmailFn.mockReturnValue('jane@example.com')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, metadataFile })).toBe('\n- Fix a bug ([#77](https://github.com/owner/repo/pull/77)) Thanks [@octocat](https://github.com/octocat)!\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, metadataFile, template: '{summary} ({title}) [{labels}]' })).toBe('\n- Fix a bug (Fix the bug) [bug]\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, metadataFile: path.join(dir, 'missing.json') })).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/repo/commit/abc1234567890))\n')
+
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('hides or collapses internal changes', async () => {
+      mockMessageFn.mockReturnValue('ci(release): Update release script (#12)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Update release script',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, internalChanges: { scopes: ['release'] } })).toBe('')
+      expect(await changelogFunctions.getReleaseLine({ ...changeset, summary: 'Update release script\ninternal: true' }, 'patch', { ...validOptions, internalChanges: {}, strict: 'error' })).toBe('')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, internalChanges: { scopes: ['release'], display: 'details' } })).toBe('\n- <details><summary>Internal</summary>\n\n  Update release script ([#12](https://github.com/owner/repo/pull/12))\n\n  </details>\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, internalChanges: { scopes: ['docs'] } })).toBe('\n- Update release script ([#12](https://github.com/owner/repo/pull/12))\n')
+    })
+
+    it('keeps PRs and issues of packages with their own repository in the repo', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug, closes #45',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: '@scope/ui', type: 'patch' }],
+      }
+      const options = { ...validOptions, linkIssues: true, packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: true } } }
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', options)).toBe('\n- Fix a bug, closes [#45](https://github.com/owner/repo/issues/45) ([#123](https://github.com/owner/repo/pull/123))\n')
+    })
+
+    it('links the commit to the repository of the released package if it keeps the commits', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: '@scope/ui', type: 'patch' }],
+      }
+      const options = { ...validOptions, packageRepos: { '@scope/*': { repo: 'owner/scope-mirror', commits: true } } }
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', options)).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/scope-mirror/commit/abc1234567890))\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, packageRepos: { '@scope/*': 'owner/scope-mirror' } })).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/repo/commit/abc1234567890))\n')
+      expect(await changelogFunctions.getReleaseLine({ ...changeset, releases: [...changeset.releases, { name: 'core', type: 'patch' }] }, 'patch', options)).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/repo/commit/abc1234567890))\n')
+    })
+
+    it('falls back to the commit message for empty summaries', async () => {
+      mockMessageFn.mockReturnValue('feat(api): Add endpoint (#12)\n\nThe endpoint returns JSON.')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'pr: #12',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'minor' }],
+      }
+
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', validOptions)).toBe('\n-  ([#12](https://github.com/owner/repo/pull/12))\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', { ...validOptions, summaryFallback: 'subject' })).toBe('\n- Add endpoint ([#12](https://github.com/owner/repo/pull/12))\n')
+      expect(await changelogFunctions.getReleaseLine(changeset, 'minor', { ...validOptions, summaryFallback: 'message', conventionalCommits: true })).toBe('\n- **Feature:** **api:** Add endpoint ([#12](https://github.com/owner/repo/pull/12))\n\n  The endpoint returns JSON.')
+      expect(await changelogFunctions.getReleaseLine({ ...changeset, summary: 'Add endpoint' }, 'minor', { ...validOptions, summaryFallback: 'message' })).toBe('\n- Add endpoint ([#12](https://github.com/owner/repo/pull/12))\n')
+    })
+
+    describe('rich summaries', () => {
+      const summaries: Record<string, string> = {
+        'code blocks': 'Add a JSON format\n\nUsage:\n\n```sh\nnpx changesets-changelog-github-local lint --format json\n\n# Prints a JSON report\n```\n\n~~~\n```not a fence```\n~~~',
+        'nested lists and tables': 'Add options\n\n- `strict`\n  - `"warn"`: Print a report\n  - `"error"`: Throw an error\n- `prefetch`\n\n| Option | Default |\n| --- | --- |\n| `strict` | `false` |',
+        'multiple paragraphs': 'Support other forges\n\nGitLab, Bitbucket, Gitea and Forgejo are supported.\n\n\nUse the `provider` option.',
+        'headings': '# Support other forges\n\n## Usage\n\nSet the `provider` option.\n\nMigration\n---------\n\n### From v1\n\nNothing to do.',
+        'CRLF line endings': 'Fix a bug\r\n\r\n- First\r\n- Second\r\n\r\n```ts\r\nconst a = 1\r\n```',
+      }
+
+      it.each(Object.keys(summaries))('renders %s', async (name) => {
+        mockMessageFn.mockReturnValue('Change (#123)')
+
+        const changeset: NewChangesetWithCommit = {
+          summary: summaries[name],
+          commit: 'abc1234567890',
+          id: 'changeset-1',
+          releases: [{ name: 'pkg', type: 'minor' }],
+        }
+
+        expect(await changelogFunctions.getReleaseLine(changeset, 'minor', validOptions)).toMatchSnapshot()
+      })
+    })
+
+    it('reuses the repository and commit lookups across release lines', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      await changelogFunctions.getReleaseLine(changeset, 'patch', validOptions)
+      await changelogFunctions.getReleaseLine({ ...changeset, id: 'changeset-2' }, 'patch', validOptions)
+
+      expect(Repository.discover).toHaveBeenCalledTimes(1)
+      expect(mockFindCommitFn).toHaveBeenCalledTimes(1)
+    })
+
+    it('links issue references in the summary', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug\n\nCloses #45 and `#46`',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, linkIssues: true })
+
+      expect(result).toBe('\n- Fix a bug ([#123](https://github.com/owner/repo/pull/123))\n\n  Closes [#45](https://github.com/owner/repo/issues/45) and `#46`')
+    })
+
+    it('replaces Conventional Commit prefixes with labels', async () => {
+      mockMessageFn.mockReturnValue('feat(api)!: Add endpoint (#123)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Add endpoint',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'major' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'major', { ...validOptions, conventionalCommits: true })
+
+      expect(result).toBe('\n- ⚠️ **Breaking:** **Feature:** **api:** Add endpoint ([#123](https://github.com/owner/repo/pull/123))\n')
+    })
+
+    it('formats the release line with a template', async () => {
+      mockMessageFn.mockReturnValue('Add feature')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Add feature\nWith details',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'minor' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'minor', { ...validOptions, template: '{pr} {summary} ({type})' })
+
+      expect(result).toBe('\n- Add feature (minor)\n  With details')
+    })
+
+    it('formats the release line with a function template', async () => {
+      mockMessageFn.mockReturnValue('Add feature (#456)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Add feature',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'minor' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'minor', { ...validOptions, template: ({ summary, links }: { summary: string, links: { pr: string } }) => `${links.pr} - ${summary}` })
+
+      expect(result).toBe('\n- [#456](https://github.com/owner/repo/pull/456) - Add feature\n')
     })
 
-    it('handles errors when getting commit message', async () => {
-      // Temporarily spy on console.warn to suppress the output
+    it('reports changesets whose commit lookup fails', async () => {
       const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
 
       // Simulate an error when finding commit
@@ -259,13 +624,12 @@ describe('changelogFunctions', () => {
 
       expect(result).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/repo/commit/abc1234567890))\n')
 
-      // Verify the warning was logged (but suppressed from output)
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        'Failed to get commit message for abc1234567890:',
-        expect.any(Error),
-      )
+      // The error is part of the report at the end instead of a separate warning
+      expect(consoleWarnSpy).not.toHaveBeenCalled()
+      expect(getUnresolvedChangesets()).toEqual([
+        { id: 'changeset-1', commit: 'abc1234567890', reason: 'lookup-failed', message: 'Looking up the commit failed: Git error' },
+      ])
 
-      // Restore the original console.warn
       consoleWarnSpy.mockRestore()
     })
 
@@ -280,6 +644,81 @@ describe('changelogFunctions', () => {
 
       expect(result).toBe('\n- Fix a bug\n')
       expect(mockFindCommitFn).not.toHaveBeenCalled()
+      expect(getUnresolvedChangesets()).toEqual([
+        { id: 'changeset-1', reason: 'missing-commit', message: 'The changeset has no commit and the commit that added it couldn\'t be found' },
+      ])
+    })
+
+    it('throws in strict mode if the commit is missing', async () => {
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      await expect(changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, strict: 'error' }))
+        .rejects
+        .toThrow('Couldn\'t resolve the commit of changeset "changeset-1": The changeset has no commit and the commit that added it couldn\'t be found.')
+    })
+
+    it('throws in strict mode if no PR number is found', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      await expect(changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, strict: 'error' }))
+        .rejects
+        .toThrow('Couldn\'t find a PR number for changeset "changeset-1" (commit abc1234).')
+    })
+
+    it('throws in strict mode if the summary is empty', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: '\n\n',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      await expect(changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, strict: 'error' }))
+        .rejects
+        .toThrow('The summary of changeset "changeset-1" is empty.')
+    })
+
+    it('accepts a PR number from the summary in strict mode', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug\n\npr: 45',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, strict: 'error' })
+
+      expect(result).toBe('\n- Fix a bug ([#45](https://github.com/owner/repo/pull/45))\n')
+    })
+
+    it('falls back to the commit link with the "warn" strict level', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug')
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', { ...validOptions, strict: 'warn' })
+
+      expect(result).toBe('\n- Fix a bug ([`abc1234`](https://github.com/owner/repo/commit/abc1234567890))\n')
     })
 
     it('throws error with invalid options', async () => {
@@ -293,5 +732,34 @@ describe('changelogFunctions', () => {
         changelogFunctions.getReleaseLine(changeset, 'patch', {}),
       ).rejects.toThrow('Please provide a repo')
     })
+
+    it('detects the repo from the git remote when omitted', async () => {
+      mockMessageFn.mockReturnValue('Fix a bug (#123)')
+      mockFindRemoteFn.mockReturnValueOnce({ url: () => 'git@gitlab.com:group/subgroup/repo.git' })
+
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        commit: 'abc1234567890',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      const result = await changelogFunctions.getReleaseLine(changeset, 'patch', { remote: 'upstream' })
+
+      expect(result).toBe('\n- Fix a bug ([#123](https://gitlab.com/group/subgroup/repo/-/merge_requests/123))\n')
+      expect(mockFindRemoteFn).toHaveBeenCalledWith('upstream')
+    })
+
+    it('throws a clear error when the remote is missing', async () => {
+      const changeset: NewChangesetWithCommit = {
+        summary: 'Fix a bug',
+        id: 'changeset-1',
+        releases: [{ name: 'pkg', type: 'patch' }],
+      }
+
+      await expect(() =>
+        changelogFunctions.getReleaseLine(changeset, 'patch', null),
+      ).rejects.toThrow('It couldn\'t be detected from the git remote: The git remote "origin" doesn\'t exist.')
+    })
   })
 })
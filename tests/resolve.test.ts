@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearUnresolvedChangesets, getUnresolvedChangesets } from '../src/_report'
+import { clearRepositoryCache } from '../src/_utils'
+import { resolveChangesetMetadata } from '../src/resolve'
+import { createFakeRepository } from './__fixtures__/repository'
+
+vi.mock('@napi-rs/simple-git', () => ({
+  Repository: {
+    discover: vi.fn(() => createFakeRepository({
+      base1234567890: { parents: [], message: 'Initial commit' },
+      abc1234567890: { parents: ['base1234567890'], message: 'Add feature (#12)', email: '12345+octocat@users.noreply.github.com' },
+    }, 'abc1234567890')),
+  },
+}))
+
+const options = { repo: 'owner/repo' }
+
+describe('resolve', () => {
+  beforeEach(() => {
+    clearRepositoryCache()
+    clearUnresolvedChangesets()
+  })
+
+  describe('resolveChangesetMetadata', () => {
+    it('resolves the PR, commit and authors', () => {
+      expect(resolveChangesetMetadata({ id: 'brave-lions', summary: 'Add feature', commit: 'abc1234567890', releases: [] }, options)).toEqual({
+        id: 'brave-lions',
+        summary: 'Add feature',
+        pr: 12,
+        commit: 'abc1234567890',
+        authors: ['octocat'],
+        urls: {
+          pr: 'https://github.com/owner/repo/pull/12',
+          commit: 'https://github.com/owner/repo/commit/abc1234567890',
+          authors: ['https://github.com/octocat'],
+        },
+        unresolved: undefined,
+      })
+    })
+
+    it('prefers the override lines of the summary', () => {
+      const metadata = resolveChangesetMetadata({ id: 'brave-lions', summary: 'Add feature\n\npr: #34\nauthor: @hubot', commit: 'abc1234567890', releases: [] }, options)
+
+      expect(metadata).toMatchObject({ summary: 'Add feature', pr: 34, authors: ['hubot'] })
+    })
+
+    it('returns unresolved commits instead of reporting them', () => {
+      const metadata = resolveChangesetMetadata({ id: 'brave-lions', summary: 'Add feature', commit: 'fff1234567890', releases: [] }, options)
+
+      expect(metadata).toMatchObject({ commit: 'fff1234567890', pr: undefined, unresolved: { id: 'brave-lions', reason: 'commit-not-found' } })
+      expect(getUnresolvedChangesets()).toEqual([])
+    })
+
+    it('validates the options', () => {
+      expect(() => resolveChangesetMetadata({ id: 'brave-lions', summary: 'Add feature', releases: [] }, { repo: 'invalid' })).toThrow('Invalid repo format')
+    })
+  })
+})
@@ -2,8 +2,9 @@ import { defineConfig } from 'tsdown'
 
 export default defineConfig([
   {
-    entry: ['./src/index.ts'],
-    platform: 'neutral',
+    entry: ['./src/index.ts', './src/resolve.ts', './src/cli.ts'],
+    platform: 'node',
+    fixedExtension: false,
     dts: true,
   },
 ])